@@ -0,0 +1,98 @@
+// lwrpc validation benchmark
+// compares validate, which walks the type for every value, with the
+// validators compileValidator returns, on valid values of typical shapes
+//  npm run bench
+
+import {compileValidator, Definitions, H, Sendable, validate} from './lwrpc';
+
+type Case = {
+    name: string;
+    type: Sendable;
+    definitions?: Definitions;
+    value: (i: number) => any;
+};
+
+const user = {
+    id: H.numberWith({integer: true, min: 0}),
+    name: H.stringWith({minLength: 1, maxLength: 64}),
+    email: H.stringWith({pattern: '^[^@]+@[^@]+$'}),
+    age: H.optional(H.number),
+    role: H.enum('admin', 'user', 'guest'),
+    tags: H.array(H.string),
+};
+
+const makeUser = (i: number) => ({
+    id: i,
+    name: `user ${i}`,
+    email: `user${i}@example.com`,
+    ...(i % 2 ? {age: 20 + (i % 50)} : {}),
+    role: i % 3 ? 'user' : 'admin',
+    tags: ['a', 'b', 'c'],
+});
+
+const makeTree = (depth: number): any => ({
+    value: depth,
+    children: depth === 0 ? [] : [makeTree(depth - 1), makeTree(depth - 1)],
+});
+
+const cases: Case[] = [
+    {name: 'flat object', type: user, value: makeUser},
+    {
+        name: 'array of 100 objects',
+        type: H.array(user),
+        value: (i) =>
+            Array.from({length: 100}, (_, j) => makeUser(i * 100 + j)),
+    },
+    {
+        name: 'recursive tree of 63 nodes',
+        type: H.ref('Tree'),
+        definitions: {
+            Tree: {value: H.number, children: H.array(H.ref('Tree'))},
+        },
+        value: () => makeTree(5),
+    },
+    {
+        name: 'union of tuples',
+        type: H.union(
+            [H.literal('point'), H.number, H.number],
+            [H.literal('text'), H.string]
+        ),
+        value: (i) => (i % 2 ? ['point', i, -i] : ['text', `${i}`]),
+    },
+];
+
+// runs fn on every value until at least a second has passed
+// returns the values checked per second
+const measure = (values: any[], fn: (value: any) => number): number => {
+    let checked = 0;
+    let issues = 0;
+    const start = performance.now();
+    let elapsed = 0;
+    while (elapsed < 1000) {
+        for (const v of values) issues += fn(v);
+        checked += values.length;
+        elapsed = performance.now() - start;
+    }
+    if (issues > 0) throw new Error('benchmark values must be valid');
+    return (checked * 1000) / elapsed;
+};
+
+const format = (n: number) =>
+    n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : `${(n / 1e3).toFixed(1)}k`;
+
+for (const {name, type, definitions = {}, value} of cases) {
+    const schemas = {definitions};
+    const values = Array.from({length: 1000}, (_, i) => value(i));
+    const validator = compileValidator(type, schemas);
+
+    const interpreted = measure(
+        values,
+        (v) => validate(v, type, 'value', schemas).length
+    );
+    const compiled = measure(values, (v) => validator(v).length);
+    console.log(
+        `${name}: validate ${format(interpreted)}/s, ` +
+            `compiled ${format(compiled)}/s, ` +
+            `${(compiled / interpreted).toFixed(1)}x`
+    );
+}
@@ -0,0 +1,234 @@
+// lwrpc codecs
+// messages are encoded before they are sent and decoded when they arrive
+// so values which the transport cannot carry (e.g. JSON over a web socket)
+// arrive as the same kind of value
+// an encoded value is a plain object: {$lw: codec name, v: encoded value}
+//
+// transports which carry transferable objects (e.g. postMessage) receive
+// values marked with transfer as they are, along with a transfer list
+//
+// encoded values are chosen by the other side, so decoders check them and
+// throw a ProtocolError when they are malformed
+
+import {ProtocolError} from './errors';
+import {has, isPlainObject, isString, setProperty} from './util';
+
+export type Codec<T = any> = {
+    name: string; // identifies the codec on the wire, must be the same on both sides
+    is: (value: any) => boolean; // whether the codec encodes the value
+    encode: (value: T) => any; // the result is encoded again, so it may contain other encoded values
+    decode: (encoded: any) => T; // the encoded value has already been decoded
+};
+
+// throws unless the encoded value of the codec has the expected shape
+function expect(name: string, wellFormed: boolean): void {
+    if (!wellFormed) throw new ProtocolError(`malformed ${name} value`);
+}
+
+export const builtinCodecs: Codec[] = [
+    {
+        name: 'undefined',
+        is: (value) => value === undefined,
+        encode: () => null,
+        decode: (encoded: null) => {
+            expect('undefined', encoded === null);
+            return undefined;
+        },
+    },
+    {
+        name: 'date',
+        is: (value) => value instanceof Date,
+        encode: (value: Date) => value.getTime(),
+        decode: (time: number) => {
+            expect('date', typeof time === 'number');
+            return new Date(time);
+        },
+    },
+    {
+        name: 'bigint',
+        is: (value) => typeof value === 'bigint',
+        encode: (value: bigint) => value.toString(),
+        decode: (digits: string) => {
+            expect('bigint', isString(digits) && /^-?\d+$/.test(digits));
+            return BigInt(digits);
+        },
+    },
+    {
+        name: 'bytes',
+        is: (value) => value instanceof Uint8Array,
+        encode: (value: Uint8Array) =>
+            btoa(Array.from(value, (b) => String.fromCharCode(b)).join('')),
+        decode: (base64: string) => {
+            expect(
+                'bytes',
+                isString(base64) && /^[A-Za-z0-9+/]*={0,2}$/.test(base64)
+            );
+            return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+        },
+    },
+    {
+        name: 'buffer',
+        is: (value) => value instanceof ArrayBuffer,
+        encode: (value: ArrayBuffer) => new Uint8Array(value),
+        decode: (bytes: Uint8Array) => {
+            expect('buffer', bytes instanceof Uint8Array);
+            return bytes.buffer;
+        },
+    },
+    {
+        name: 'map',
+        is: (value) => value instanceof Map,
+        encode: (value: Map<any, any>) => Array.from(value.entries()),
+        decode: (entries: [any, any][]) => {
+            expect(
+                'map',
+                Array.isArray(entries) &&
+                    entries.every((e) => Array.isArray(e) && e.length === 2)
+            );
+            return new Map(entries);
+        },
+    },
+    {
+        name: 'set',
+        is: (value) => value instanceof Set,
+        encode: (value: Set<any>) => Array.from(value.values()),
+        decode: (values: any[]) => {
+            expect('set', Array.isArray(values));
+            return new Set(values);
+        },
+    },
+];
+
+// plain objects which have a $lw property are encoded with this codec name
+// so they are not mistaken for encoded values
+const escapedObject = 'object';
+
+// the objects which transfer moves to the other side, by marked value
+const transfers = new WeakMap<object, Transferable[]>();
+
+// marks a value to be transferred instead of copied, when the transport
+// carries transferable objects, e.g. channel.process(transfer(image.buffer))
+// the transferables of typed arrays are their buffers
+// other values (e.g. an object holding buffers) are sent as usual, with
+// the transferables in list moved along with them
+export function transfer<T extends object>(value: T, list?: Transferable[]): T {
+    transfers.set(
+        value,
+        list || [ArrayBuffer.isView(value) ? value.buffer : (value as any)]
+    );
+    return value;
+}
+
+const transferableClasses = [
+    'ArrayBuffer',
+    'MessagePort',
+    'ImageBitmap',
+    'OffscreenCanvas',
+    'ReadableStream',
+    'WritableStream',
+    'TransformStream',
+];
+
+// whether postMessage can transfer the value, the classes which do not
+// exist in this environment are skipped
+export function isTransferable(value: any): boolean {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        transferableClasses.some((name) => {
+            const c = (globalThis as any)[name];
+            return typeof c === 'function' && value instanceof c;
+        })
+    );
+}
+
+// cyclic values can not be encoded
+// transferList is given when the transport carries transferable objects
+// ArrayBuffers, and marked transferables and typed arrays, are left as
+// they are, and the transferables of marked values are added to transferList
+export function encodeValue(
+    value: any,
+    codecs: Codec[],
+    transferList?: Transferable[],
+    ancestors: Set<any> = new Set()
+): any {
+    if (transferList && typeof value === 'object' && value !== null) {
+        const list = transfers.get(value);
+        if (list) transferList.push(...list);
+        if (
+            value instanceof ArrayBuffer ||
+            (list && (isTransferable(value) || ArrayBuffer.isView(value)))
+        ) {
+            return value;
+        }
+    }
+
+    const codec = codecs.find((c) => c.is(value));
+    if (typeof value === 'object' && value !== null) {
+        if (ancestors.has(value)) {
+            throw new TypeError('can not encode a cyclic value');
+        }
+        ancestors.add(value);
+    }
+    try {
+        if (codec) {
+            const v = encodeValue(
+                codec.encode(value),
+                codecs,
+                transferList,
+                ancestors
+            );
+            return {$lw: codec.name, v};
+        } else if (Array.isArray(value)) {
+            return value.map((v) =>
+                encodeValue(v, codecs, transferList, ancestors)
+            );
+        } else if (isPlainObject(value)) {
+            const encoded: {[key: string]: any} = {};
+            for (const k of Object.keys(value)) {
+                setProperty(
+                    encoded,
+                    k,
+                    encodeValue(value[k], codecs, transferList, ancestors)
+                );
+            }
+            return has(value, '$lw')
+                ? {$lw: escapedObject, v: encoded}
+                : encoded;
+        } else {
+            return value;
+        }
+    } finally {
+        ancestors.delete(value);
+    }
+}
+
+// encoded values with an unknown codec name are left as they are
+// throws a ProtocolError, or the error of a codec, for malformed values
+export function decodeValue(value: any, codecs: Codec[]): any {
+    if (Array.isArray(value)) {
+        return value.map((v) => decodeValue(v, codecs));
+    } else if (isPlainObject(value)) {
+        if (isString(value.$lw) && has(value, 'v')) {
+            if (value.$lw === escapedObject) {
+                expect(escapedObject, isPlainObject(value.v));
+                return decodeProperties(value.v, codecs);
+            }
+            const codec = codecs.find((c) => c.name === value.$lw);
+            if (codec) {
+                return codec.decode(decodeValue(value.v, codecs));
+            }
+        }
+        return decodeProperties(value, codecs);
+    } else {
+        return value;
+    }
+}
+
+function decodeProperties(value: {[key: string]: any}, codecs: Codec[]) {
+    const decoded: {[key: string]: any} = {};
+    for (const k of Object.keys(value)) {
+        setProperty(decoded, k, decodeValue(value[k], codecs));
+    }
+    return decoded;
+}
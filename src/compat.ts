@@ -0,0 +1,378 @@
+// lwrpc compatibility
+// compares an old Sendable with a new one, to tell whether a change of a
+// published function breaks its callers
+//  args may widen: the new args must accept every value of the old args
+//  returns may narrow: every value of the new returns must fit the old returns
+
+import {
+    Definitions,
+    RemoteFunctionDefinition,
+    Sendable,
+    describeSendable,
+    validate,
+} from './lwrpc';
+import {has, property} from './util';
+
+// where the types differ, e.g. args[0].name
+export type CompatibilityIssue = {
+    path: string;
+    old?: Sendable;
+    new?: Sendable;
+    message: string;
+};
+
+export type Compatibility = {
+    narrowed: CompatibilityIssue[]; // the new type rejects values of the old type
+    widened: CompatibilityIssue[]; // the new type allows values the old type rejects
+    safeForArgs: boolean; // nothing narrowed
+    safeForReturns: boolean; // nothing widened
+};
+
+export type CompatibilityOptions = {
+    oldDefinitions?: Definitions; // which the old type refers to
+    newDefinitions?: Definitions; // which the new type refers to
+    path?: string; // of the types, default value
+};
+
+// what a caller expects of a function, e.g. a LocalFunctionDefinition
+export type FunctionContract = {
+    name: string;
+    args: Sendable[];
+    returns: Sendable;
+    oneway?: boolean;
+};
+
+// the functions a channel expects the other side to publish
+// a function which the other side publishes with schemas that break its
+// contract is reported with console.warn, or fails every call (with an
+// IncompatibleFunctionError) when mismatch is reject
+export type Contracts = {
+    functions: FunctionContract[];
+    definitions?: Definitions; // which the functions refer to, default the definitions of the channel
+    mismatch?: 'warn' | 'reject'; // default warn
+    // reports the functions which break their contracts, with either
+    // mismatch, default console.warn(message) when mismatch is warn
+    onMismatch?: (message: string, issues: CompatibilityIssue[]) => void;
+};
+
+// compares the values the types describe
+// the comparison is conservative: issues are reported unless the types
+// show that the values fit, e.g. a union of literals is not equal to boolean
+export function isCompatible(
+    oldType: Sendable,
+    newType: Sendable,
+    options: CompatibilityOptions = {}
+): Compatibility {
+    const {oldDefinitions = {}, newDefinitions = {}, path = 'value'} = options;
+    const narrowed = fits(
+        oldType,
+        newType,
+        path,
+        oldDefinitions,
+        newDefinitions
+    ).map(({path: p, sub, sup, message}) => issue(p, sub, sup, message));
+    const widened = fits(
+        newType,
+        oldType,
+        path,
+        newDefinitions,
+        oldDefinitions
+    ).map(({path: p, sub, sup, message}) => issue(p, sup, sub, message));
+    return {
+        narrowed,
+        widened,
+        safeForArgs: narrowed.length === 0,
+        safeForReturns: widened.length === 0,
+    };
+}
+
+// the ways in which a published function breaks the contract of its callers
+// its args must not narrow, its returns must not widen, and it must not
+// become oneway, which returns nothing
+export function checkContract(
+    contract: FunctionContract,
+    published: RemoteFunctionDefinition | FunctionContract,
+    options: {
+        contractDefinitions?: Definitions;
+        publishedDefinitions?: Definitions;
+    } = {}
+): CompatibilityIssue[] {
+    const definitions = {
+        oldDefinitions: options.contractDefinitions,
+        newDefinitions: options.publishedDefinitions,
+    };
+    const args = isCompatible(contract.args, published.args, {
+        ...definitions,
+        path: 'args',
+    });
+    if (!contract.oneway && published.oneway) {
+        return [
+            ...args.narrowed,
+            {path: 'returns', message: `${published.name} is oneway`},
+        ];
+    }
+    const returns = contract.oneway
+        ? undefined
+        : isCompatible(contract.returns, published.returns, {
+              ...definitions,
+              path: 'returns',
+          });
+    return [...args.narrowed, ...(returns ? returns.widened : [])];
+}
+
+const issue = (
+    path: string,
+    oldType: Sendable | undefined,
+    newType: Sendable | undefined,
+    message: string
+): CompatibilityIssue => ({
+    path,
+    ...(oldType === undefined ? {} : {old: oldType}),
+    ...(newType === undefined ? {} : {new: newType}),
+    message,
+});
+
+type Misfit = {path: string; sub?: Sendable; sup?: Sendable; message: string};
+
+// the places where values of sub may not fit sup
+function fits(
+    subType: Sendable,
+    supType: Sendable,
+    path: string,
+    subDefinitions: Definitions,
+    supDefinitions: Definitions
+): Misfit[] {
+    // pairs of references which are being compared, which are assumed to
+    // fit while they are, so recursive definitions end
+    const comparing = new Set<string>();
+
+    const compare = (sub: Sendable, sup: Sendable, p: string): Misfit[] => {
+        const misfit = (message?: string): Misfit[] => [
+            {
+                path: p,
+                sub,
+                sup,
+                message:
+                    message ||
+                    `${p} is ${describeSendable(
+                        sub
+                    )}, which does not fit ${describeSendable(sup)}`,
+            },
+        ];
+
+        const subRef = kindOf(sub) === 13 ? (sub as any).$r : undefined;
+        const supRef = kindOf(sup) === 13 ? (sup as any).$r : undefined;
+        if (subRef !== undefined || supRef !== undefined) {
+            const key = JSON.stringify([subRef, supRef]);
+            if (comparing.has(key)) return [];
+            if (subRef !== undefined && !has(subDefinitions, subRef)) {
+                return misfit(`${p} refers to ${subRef}, which is not defined`);
+            }
+            if (supRef !== undefined && !has(supDefinitions, supRef)) {
+                return misfit(`${p} refers to ${supRef}, which is not defined`);
+            }
+            comparing.add(key);
+            try {
+                return compare(
+                    subRef === undefined ? sub : subDefinitions[subRef],
+                    supRef === undefined ? sup : supDefinitions[supRef],
+                    p
+                );
+            } finally {
+                comparing.delete(key);
+            }
+        }
+
+        const a = sub as any;
+        const b = sup as any;
+        const ka = kindOf(sub);
+        const kb = kindOf(sup);
+
+        // unions: every member of sub must fit, some member of sup must fit
+        if (ka === 6) {
+            return a.$t.flatMap((t: Sendable) => compare(t, sup, p));
+        } else if (ka === 11) {
+            return compare(a.$v, sup, p); // presence is checked by the container
+        } else if (kb === 11) {
+            return compare(sub, b.$v, p);
+        } else if (ka === 7 || ka === 8) {
+            const values: any[] = ka === 7 ? [a.$l] : a.$e;
+            const schemas = {definitions: supDefinitions};
+            return values.some((v) => validate(v, sup, p, schemas).length > 0)
+                ? misfit()
+                : [];
+        } else if (kb === 6) {
+            return b.$t.some((t: Sendable) => compare(sub, t, p).length === 0)
+                ? []
+                : misfit();
+        }
+
+        switch (kb) {
+            case 0:
+            case 1:
+            case 2:
+            case 3:
+                return ka === kb ||
+                    (kb === 1 && ka === 10) ||
+                    (kb === 2 && ka === 9)
+                    ? []
+                    : misfit();
+            case 9: {
+                const n = ka === 2 ? {} : ka === 9 ? a : undefined;
+                return n &&
+                    (!b.$i || n.$i) &&
+                    atLeast(n.$min, b.$min) &&
+                    atMost(n.$max, b.$max)
+                    ? []
+                    : misfit();
+            }
+            case 10: {
+                const s = ka === 1 ? {} : ka === 10 ? a : undefined;
+                return s &&
+                    atLeast(s.$min, b.$min) &&
+                    atMost(s.$max, b.$max) &&
+                    (b.$p === undefined || b.$p === s.$p)
+                    ? []
+                    : misfit();
+            }
+            case 4:
+                if (ka === 4) {
+                    return compare(a.$v, b.$v, `${p}[]`);
+                } else if (ka === 'tuple') {
+                    return (sub as Sendable[]).flatMap((t, i) =>
+                        compare(t, b.$v, `${p}[${i}]`)
+                    );
+                }
+                return misfit();
+            case 'tuple':
+                return ka === 'tuple'
+                    ? compareElements(sub as Sendable[], sup as Sendable[], p)
+                    : misfit();
+            case 5:
+                if (ka === 5) {
+                    return a.$k === 2 || b.$k === 1
+                        ? compare(a.$v, b.$v, `${p}[]`)
+                        : misfit('keys may not be numbers');
+                } else if (ka === 'object' && b.$k === 1) {
+                    return Object.keys(a).flatMap((k) =>
+                        compare(a[k], b.$v, p + property(k))
+                    );
+                }
+                return misfit();
+            case 'object':
+            case 12:
+                return ka === 'object' || ka === 12
+                    ? compareProperties(
+                          ka === 12 ? a.$p : a,
+                          ka === 12,
+                          kb === 12 ? b.$p : b,
+                          kb === 12,
+                          p
+                      )
+                    : misfit();
+            case 14:
+                return ka === 14 &&
+                    (a.$i === b.$i ||
+                        (b.$i === 'transferable' && a.$i === 'buffer'))
+                    ? []
+                    : misfit();
+            case 15:
+                return ka === 15
+                    ? [
+                          ...compare(a.$k, b.$k, `${p}.keys`),
+                          ...compare(a.$v, b.$v, `${p}.values`),
+                      ]
+                    : misfit();
+            case 16:
+            case 18:
+                return ka === kb ? compare(a.$v, b.$v, `${p}[]`) : misfit();
+            case 17:
+                return ka === 17 && a.$n === b.$n ? [] : misfit();
+            case 19:
+                // the caller of a callback sends its args, and gets its result
+                return ka === 19
+                    ? [
+                          ...compareElements(b.$a, a.$a, `${p}.args`),
+                          ...compare(a.$r, b.$r, `${p}.returns`),
+                      ]
+                    : misfit();
+        }
+        return misfit();
+    };
+
+    const compareElements = (
+        sub: Sendable[],
+        sup: Sendable[],
+        p: string
+    ): Misfit[] =>
+        Array.from({length: Math.max(sub.length, sup.length)}, (_, i) => {
+            const e = `${p}[${i}]`;
+            const required = i < sup.length && kindOf(sup[i]) !== 11;
+            if (i >= sup.length) {
+                return [presence(e, 'is unexpected')];
+            } else if (i >= sub.length) {
+                return required ? [presence(e, 'may be missing')] : [];
+            } else if (required && kindOf(sub[i]) === 11) {
+                return [presence(e, 'may be missing')];
+            }
+            return compare(sub[i], sup[i], e);
+        }).flat();
+
+    const compareProperties = (
+        sub: {[key: string]: Sendable},
+        subOpen: boolean,
+        sup: {[key: string]: Sendable},
+        supOpen: boolean,
+        p: string
+    ): Misfit[] => {
+        const issues: Misfit[] = [];
+        for (const k of Object.keys(sup)) {
+            const q = p + property(k);
+            if (!has(sub, k)) {
+                if (kindOf(sup[k]) !== 11 && !subOpen) {
+                    issues.push(presence(q, 'may be missing'));
+                } else if (subOpen) {
+                    issues.push(presence(q, 'may be anything'));
+                }
+            } else if (kindOf(sub[k]) === 11 && kindOf(sup[k]) !== 11) {
+                issues.push(presence(q, 'may be missing'));
+            } else {
+                issues.push(...compare(sub[k], sup[k], q));
+            }
+        }
+        if (!supOpen) {
+            for (const k of Object.keys(sub)) {
+                if (!has(sup, k)) {
+                    issues.push(presence(p + property(k), 'is unexpected'));
+                }
+            }
+            if (subOpen) {
+                issues.push(presence(p, 'may have other properties'));
+            }
+        }
+        return issues;
+    };
+
+    return compare(subType, supType, path);
+}
+
+// an element or property which is present in one type and not the other
+const presence = (path: string, what: string): Misfit => ({
+    path,
+    message: `${path} ${what}`,
+});
+
+// a number for containers, as their $c
+type Kind = number | 'tuple' | 'object';
+
+function kindOf(type: Sendable): Kind {
+    if (typeof type === 'number') return type;
+    if (Array.isArray(type)) return 'tuple';
+    return has(type, '$c') ? (type as any).$c : 'object';
+}
+
+// whether a bound of sub is within the bound of sup, undefined is unbounded
+const atLeast = (bound?: number, required?: number) =>
+    required === undefined || (bound !== undefined && bound >= required);
+const atMost = (bound?: number, required?: number) =>
+    required === undefined || (bound !== undefined && bound <= required);
@@ -0,0 +1,232 @@
+// lwrpc errors
+// every rejection produced by a channel is an RpcError with a stable code
+// errors thrown by a published function are sent to the caller and rebuilt
+// as a RemoteExceptionError, or as an ApplicationError (see below)
+
+// tslint:disable:max-classes-per-file
+
+export type RpcErrorCode =
+    | 'UNPUBLISHED_FUNCTION'
+    | 'INVALID_ARGUMENTS'
+    | 'INVALID_RETURN'
+    | 'REMOTE_EXCEPTION'
+    | 'APPLICATION_ERROR'
+    | 'CONNECTION_CLOSED'
+    | 'TIMEOUT'
+    | 'CANCELLED'
+    | 'UNSUPPORTED_FEATURE'
+    | 'OVERLOADED'
+    | 'INCOMPATIBLE_FUNCTION'
+    | 'UNAUTHORIZED'
+    | 'PROTOCOL_ERROR';
+
+export type RpcErrorDetails = {
+    remoteName?: string; // the name of the error thrown on the other side
+    remoteStack?: string; // only sent when the other side enables sendStack
+    data?: any; // application defined data, must be sendable over the channel
+};
+
+export class RpcError extends Error {
+    readonly code: RpcErrorCode;
+    readonly remoteName?: string;
+    readonly remoteStack?: string;
+    readonly data?: any;
+
+    constructor(
+        code: RpcErrorCode,
+        message: string,
+        details: RpcErrorDetails = {}
+    ) {
+        super(message);
+        this.name = 'RpcError';
+        this.code = code;
+        this.remoteName = details.remoteName;
+        this.remoteStack = details.remoteStack;
+        this.data = details.data;
+    }
+}
+
+export class UnpublishedFunctionError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('UNPUBLISHED_FUNCTION', message, details);
+        this.name = 'UnpublishedFunctionError';
+    }
+}
+
+export class InvalidArgumentsError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('INVALID_ARGUMENTS', message, details);
+        this.name = 'InvalidArgumentsError';
+    }
+}
+
+export class InvalidReturnError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('INVALID_RETURN', message, details);
+        this.name = 'InvalidReturnError';
+    }
+}
+
+export class RemoteExceptionError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('REMOTE_EXCEPTION', message, details);
+        this.name = 'RemoteExceptionError';
+    }
+}
+
+export class ConnectionClosedError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('CONNECTION_CLOSED', message, details);
+        this.name = 'ConnectionClosedError';
+    }
+}
+
+export class TimeoutError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('TIMEOUT', message, details);
+        this.name = 'TimeoutError';
+    }
+}
+
+export class CancelledError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('CANCELLED', message, details);
+        this.name = 'CancelledError';
+    }
+}
+
+// the other side of the channel did not enable the feature, see ChannelParams.features
+export class UnsupportedFeatureError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('UNSUPPORTED_FEATURE', message, details);
+        this.name = 'UnsupportedFeatureError';
+    }
+}
+
+// a limit of the channel or the function was reached, see ChannelParams.limits
+export class OverloadedError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('OVERLOADED', message, details);
+        this.name = 'OverloadedError';
+    }
+}
+
+// the other side publishes the function with schemas which break its
+// contract, see ChannelParams.contracts
+export class IncompatibleFunctionError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('INCOMPATIBLE_FUNCTION', message, details);
+        this.name = 'IncompatibleFunctionError';
+    }
+}
+
+// the published function does not authorize the call, see
+// LocalFunctionDefinition.authorize
+export class UnauthorizedError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('UNAUTHORIZED', message, details);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+// a message from the other side is malformed, e.g. an encoded value which
+// its codec can not decode, and the channel closes
+export class ProtocolError extends RpcError {
+    constructor(message: string, details?: RpcErrorDetails) {
+        super('PROTOCOL_ERROR', message, details);
+        this.name = 'ProtocolError';
+    }
+}
+
+// throw an ApplicationError (or a subclass) from a published function
+// to send its name and data to the caller
+// subclasses listed in the errors parameter of the calling channel are rebuilt
+// with their own class, so they can be told apart with instanceof
+// subclass constructors must accept (message, data)
+export class ApplicationError<D = any> extends RpcError {
+    readonly data: D;
+
+    constructor(message: string, data: D, details: RpcErrorDetails = {}) {
+        super('APPLICATION_ERROR', message, {...details, data});
+        this.name = new.target.name;
+        this.data = data;
+    }
+}
+
+export type ApplicationErrorClass = new (
+    message: string,
+    data: any
+) => ApplicationError;
+
+// the part of an error message that describes the error
+export type ErrorDescription = {
+    code: RpcErrorCode;
+    message: string;
+    name?: string;
+    stack?: string;
+    data?: any;
+};
+
+export function describeError(e: any, sendStack: boolean): ErrorDescription {
+    if (e instanceof RpcError) {
+        return {
+            code: e.code,
+            message: e.message,
+            name: e.name,
+            stack: sendStack ? e.stack : undefined,
+            data: e.data,
+        };
+    } else if (e instanceof Error) {
+        return {
+            code: 'REMOTE_EXCEPTION',
+            message: e.message,
+            name: e.name,
+            stack: sendStack ? e.stack : undefined,
+        };
+    } else {
+        return {code: 'REMOTE_EXCEPTION', message: String(e)};
+    }
+}
+
+export function rebuildError(
+    d: ErrorDescription,
+    errorClasses: ApplicationErrorClass[] = []
+): RpcError {
+    const details = {remoteName: d.name, remoteStack: d.stack, data: d.data};
+    switch (d.code) {
+        case 'UNPUBLISHED_FUNCTION':
+            return new UnpublishedFunctionError(d.message, details);
+        case 'INVALID_ARGUMENTS':
+            return new InvalidArgumentsError(d.message, details);
+        case 'INVALID_RETURN':
+            return new InvalidReturnError(d.message, details);
+        case 'APPLICATION_ERROR': {
+            const cls = errorClasses.find((c) => c.name === d.name);
+            if (cls) {
+                const e = new cls(d.message, d.data);
+                Object.assign(e, {remoteName: d.name, remoteStack: d.stack});
+                return e;
+            } else {
+                return new ApplicationError(d.message, d.data, details);
+            }
+        }
+        case 'CONNECTION_CLOSED':
+            return new ConnectionClosedError(d.message, details);
+        case 'TIMEOUT':
+            return new TimeoutError(d.message, details);
+        case 'CANCELLED':
+            return new CancelledError(d.message, details);
+        case 'UNSUPPORTED_FEATURE':
+            return new UnsupportedFeatureError(d.message, details);
+        case 'OVERLOADED':
+            return new OverloadedError(d.message, details);
+        case 'INCOMPATIBLE_FUNCTION':
+            return new IncompatibleFunctionError(d.message, details);
+        case 'UNAUTHORIZED':
+            return new UnauthorizedError(d.message, details);
+        case 'PROTOCOL_ERROR':
+            return new ProtocolError(d.message, details);
+        default:
+            return new RemoteExceptionError(d.message, details);
+    }
+}
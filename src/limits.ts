@@ -0,0 +1,139 @@
+// lwrpc limits
+// a limiter bounds the calls which run at once, queueing the ones beyond
+// the bound, and the rate of calls, with a token bucket
+// calls beyond the queue or the rate fail with an OverloadedError
+
+import {CancelledError, OverloadedError} from './errors';
+import {isPlainObject} from './util';
+
+export type RateLimit = {
+    rate: number; // calls per second
+    burst?: number; // calls which may be made at once, default rate
+};
+
+export type FunctionLimits = {
+    concurrency?: number; // calls which run at once, default unlimited
+    queue?: number; // calls which wait to run, default unlimited
+    rate?: RateLimit;
+};
+
+export type ChannelLimits = FunctionLimits & {
+    inFlight?: number; // calls to the other side which wait for results
+};
+
+export type Limiter = {
+    // resolves with a function which ends the call, once it may run
+    // rejects with a CancelledError when the signal aborts while it waits
+    acquire: (name: string, signal?: AbortSignal) => Promise<() => void>;
+};
+
+export function createLimiter(
+    limits: FunctionLimits,
+    now: () => number = Date.now
+): Limiter {
+    const {concurrency = Infinity, queue = Infinity, rate} = limits;
+    const burst = rate ? rate.burst ?? rate.rate : 0;
+
+    let running = 0;
+    let tokens = burst;
+    let refilled = now();
+    const waiting: (() => void)[] = [];
+
+    const takeToken = (): boolean => {
+        if (!rate) return true;
+        const t = now();
+        tokens = Math.min(burst, tokens + ((t - refilled) * rate.rate) / 1000);
+        refilled = t;
+        if (tokens < 1) return false;
+        tokens--;
+        return true;
+    };
+
+    const release = () => {
+        running--;
+        const next = waiting.shift();
+        if (next) next();
+    };
+
+    const acquire = (name: string, signal?: AbortSignal) =>
+        new Promise<() => void>((resolve, fail) => {
+            if (signal?.aborted) {
+                fail(new CancelledError(`call to ${name} was cancelled`));
+                return;
+            } else if (!takeToken()) {
+                fail(new OverloadedError(`rate limit of ${name} exceeded`));
+                return;
+            } else if (running < concurrency) {
+                running++;
+                resolve(once(release));
+                return;
+            } else if (waiting.length >= queue) {
+                fail(new OverloadedError(`too many calls to ${name}`));
+                return;
+            }
+
+            const start = () => {
+                signal?.removeEventListener('abort', abort);
+                running++;
+                resolve(once(release));
+            };
+            const abort = () => {
+                waiting.splice(waiting.indexOf(start), 1);
+                fail(new CancelledError(`call to ${name} was cancelled`));
+            };
+            waiting.push(start);
+            signal?.addEventListener('abort', abort);
+        });
+
+    return {acquire};
+}
+
+const once = (fn: () => void) => {
+    let called = false;
+    return () => {
+        if (!called) {
+            called = true;
+            fn();
+        }
+    };
+};
+
+// limits of the messages received from the other side, which protect the
+// decoding and validation of values from deeply nested or huge messages
+// they apply to channels given messageLimits, a message beyond the limits
+// closes the channel
+export type MessageLimits = {
+    size?: number; // characters or bytes of a frame, enforced by the transport, see webSocketTransport
+    depth?: number; // nested arrays and objects, default 100
+    arrayLength?: number; // elements of each array, default unlimited
+};
+
+// returns the limit the message exceeds, if any
+// nesting is measured without recursion, so any depth can be measured
+// arrays and plain objects are nested, other objects (e.g. the buffers of
+// transports which carry them) are not looked into
+export function checkMessage(
+    message: any,
+    limits: MessageLimits
+): string | undefined {
+    const {depth = 100, arrayLength = Infinity} = limits;
+    const stack: [any, number][] = [[message, 1]];
+    while (stack.length > 0) {
+        const [value, level] = stack.pop()!;
+        if (typeof value !== 'object' || value === null) continue;
+        if (level > depth) {
+            return `message is nested deeper than ${depth}`;
+        }
+        if (Array.isArray(value)) {
+            if (value.length > arrayLength) {
+                return `message has an array longer than ${arrayLength}`;
+            }
+            for (const v of value) stack.push([v, level + 1]);
+        } else if (isPlainObject(value)) {
+            for (const k of Object.keys(value)) {
+                stack.push([value[k], level + 1]);
+            }
+        }
+    }
+    return undefined;
+}
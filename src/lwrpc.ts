@@ -9,6 +9,73 @@
 //  if you call send on one side with a plain-old-javascript-object
 //  receive will be called on the other side with a plain-old-javascript-object
 
+import {
+    ApplicationErrorClass,
+    CancelledError,
+    ConnectionClosedError,
+    describeError,
+    ErrorDescription,
+    IncompatibleFunctionError,
+    InvalidArgumentsError,
+    InvalidReturnError,
+    OverloadedError,
+    ProtocolError,
+    rebuildError,
+    RpcError,
+    RpcErrorDetails,
+    TimeoutError,
+    UnauthorizedError,
+    UnpublishedFunctionError,
+    UnsupportedFeatureError,
+} from './errors';
+import {
+    builtinCodecs,
+    Codec,
+    decodeValue,
+    encodeValue,
+    isTransferable,
+} from './codecs';
+import {
+    ConnectionState,
+    ReconnectOptions,
+    reconnectingWebSocketTransport,
+    webSocketTransport,
+} from './transports';
+import {
+    createStreams,
+    isAsyncIterable,
+    isStreamPlaceholder,
+    StreamMessage,
+    StreamPlaceholder,
+} from './streams';
+import {
+    ChannelLimits,
+    checkMessage,
+    createLimiter,
+    FunctionLimits,
+    Limiter,
+    MessageLimits,
+} from './limits';
+import {checkContract, Contracts, FunctionContract} from './compat';
+import {
+    has,
+    identifier,
+    isNumber,
+    isString,
+    property,
+    propertyName,
+    requiredLength,
+} from './util';
+
+export * from './errors';
+export * from './codecs';
+export * from './transports';
+export * from './limits';
+export * from './tracing';
+export * from './schema';
+export * from './compat';
+export * from './server';
+
 type subtype<parent, label> = parent & {_: label};
 type RemoteFunctionName = subtype<string, 'remote_function_name'>;
 export type LocalFunctionName = subtype<string, 'published_function_name'>;
@@ -22,21 +89,119 @@ export type Sendable =
     | VariableStructureArraySendable // variable structure array
     | VariableStructureObjectSendable // variable structure object
     | UnionSendable // union type
+    | LiteralSendable // a single value
+    | EnumSendable // one of a list of values
+    | NumberSendable // constrained number
+    | StringSendable // constrained string
+    | OptionalSendable // optional property of a fixed or open structure object
+    | OpenObjectSendable // fixed structure object which allows other properties
+    | ReferenceSendable // a named definition, see Definitions
+    | InstanceSendable // Date, bigint, Uint8Array, ArrayBuffer, Transferable or undefined, see codecs
+    | MapSendable // Map with keys and values of a type
+    | SetSendable // Set with values of a type
+    | CodecSendable // a value encoded by a codec of the channel
+    | StreamSendable // AsyncIterable of a type, only as an arg or returns
+    | CallbackSendable // function which the other side can call, see H.callback
     | Sendable[] // fixed structure array
     | {[key: string]: Sendable}; // fixed structure object
 
 type VariableStructureArraySendable = {$c: 4; $v: Sendable};
 type VariableStructureObjectSendable = {$c: 5; $k: 1 | 2; $v: Sendable};
 type UnionSendable = {$c: 6; $t: Sendable[]};
+type LiteralSendable = {$c: 7; $l: Literal};
+type EnumSendable = {$c: 8; $e: Literal[]};
+type NumberSendable = {$c: 9; $i?: true; $min?: number; $max?: number};
+type StringSendable = {$c: 10; $min?: number; $max?: number; $p?: string};
+type OptionalSendable = {$c: 11; $v: Sendable};
+type OpenObjectSendable = {$c: 12; $p: {[key: string]: Sendable}};
+type ReferenceSendable = {$c: 13; $r: string};
+type InstanceSendable = {
+    $c: 14;
+    $i: 'date' | 'bigint' | 'bytes' | 'buffer' | 'transferable' | 'undefined';
+};
+type MapSendable = {$c: 15; $k: Sendable; $v: Sendable};
+type SetSendable = {$c: 16; $v: Sendable};
+type CodecSendable = {$c: 17; $n: string};
+type StreamSendable = {$c: 18; $v: Sendable};
+type CallbackSendable = {$c: 19; $a: Sendable[]; $r: Sendable; $p?: true};
+
+// named Sendables, which can be referenced with H.ref(name)
+// and which can refer to themselves
+export type Definitions = {[name: string]: Sendable};
+
+type Literal = string | number | boolean | null;
+
+type ContainerSendable =
+    | VariableStructureArraySendable
+    | VariableStructureObjectSendable
+    | UnionSendable
+    | LiteralSendable
+    | EnumSendable
+    | NumberSendable
+    | StringSendable
+    | OptionalSendable
+    | OpenObjectSendable
+    | ReferenceSendable
+    | InstanceSendable
+    | MapSendable
+    | SetSendable
+    | CodecSendable
+    | StreamSendable
+    | CallbackSendable;
+
+export type NumberConstraints = {min?: number; max?: number; integer?: boolean};
+export type StringConstraints = {
+    minLength?: number;
+    maxLength?: number;
+    pattern?: RegExp | string; // sent as a string, flags are not supported
+};
+export type CallbackOptions = {
+    persistent?: boolean; // kept after the call returns, until it is released
+};
 
+// the helpers keep the types of their parameters for SendableType
 type SendableHelper = {
     none: 0;
     string: 1;
     number: 2;
     boolean: 3;
-    array: (v: Sendable) => VariableStructureArraySendable;
-    object: (k: 1 | 2, v: Sendable) => VariableStructureObjectSendable;
-    union: (...u: Sendable[]) => UnionSendable;
+    array: <V extends Sendable>(v: V) => {$c: 4; $v: V};
+    object: <K extends 1 | 2, V extends Sendable>(
+        k: K,
+        v: V
+    ) => {$c: 5; $k: K; $v: V};
+    union: <T extends Sendable[]>(...u: T) => {$c: 6; $t: T};
+    literal: <L extends Literal>(l: L) => {$c: 7; $l: L};
+    enum: <E extends Literal[]>(...e: E) => {$c: 8; $e: E};
+    nullable: <T extends Sendable>(t: T) => {$c: 6; $t: [T, 0]};
+    integer: {$c: 9; $i: true};
+    numberWith: (c: NumberConstraints) => NumberSendable;
+    stringWith: (c: StringConstraints) => StringSendable;
+    optional: <V extends Sendable>(v: V) => {$c: 11; $v: V};
+    open: <P extends {[key: string]: Sendable}>(p: P) => {$c: 12; $p: P};
+    // T is the typescript type of the definition, e.g. H.ref<TreeNode>('TreeNode')
+    ref: <T = unknown>(name: string) => {$c: 13; $r: string; $T?: T};
+    date: {$c: 14; $i: 'date'};
+    bigint: {$c: 14; $i: 'bigint'};
+    bytes: {$c: 14; $i: 'bytes'};
+    buffer: {$c: 14; $i: 'buffer'};
+    // ArrayBuffer, MessagePort, ImageBitmap... other than ArrayBuffers they
+    // need a transport which carries transferable objects
+    transferable: {$c: 14; $i: 'transferable'};
+    undefined: {$c: 14; $i: 'undefined'};
+    map: <K extends Sendable, V extends Sendable>(
+        k: K,
+        v: V
+    ) => {$c: 15; $k: K; $v: V};
+    set: <V extends Sendable>(v: V) => {$c: 16; $v: V};
+    // T is the typescript type of the values the codec encodes
+    codec: <T = unknown>(name: string) => {$c: 17; $n: string; $T?: T};
+    stream: <V extends Sendable>(v: V) => {$c: 18; $v: V};
+    callback: <A extends [] | Sendable[], R extends Sendable>(
+        args: A,
+        returns: R,
+        options?: CallbackOptions
+    ) => {$c: 19; $a: A; $r: R; $p?: true};
 };
 
 export const H: SendableHelper = {
@@ -44,90 +209,733 @@ export const H: SendableHelper = {
     string: 1,
     number: 2,
     boolean: 3,
-    array: (valueType: Sendable) => ({$c: 4, $v: valueType}),
-    object: (keyType: 1 | 2, valueType: Sendable) => ({
+    array: (valueType) => ({$c: 4, $v: valueType}),
+    object: (keyType, valueType) => ({
         $c: 5,
         $k: keyType,
         $v: valueType,
     }),
-    union: (...unionTypes: Sendable[]) => ({$c: 6, $t: unionTypes}),
+    union: (...unionTypes) => ({$c: 6, $t: unionTypes}),
+    literal: (value) => ({$c: 7, $l: value}),
+    enum: (...values) => ({$c: 8, $e: values}),
+    nullable: (valueType) => ({$c: 6, $t: [valueType, 0]}),
+    integer: {$c: 9, $i: true},
+    numberWith: ({min, max, integer}) => ({
+        $c: 9,
+        ...(integer ? {$i: true} : {}),
+        ...(min === undefined ? {} : {$min: min}),
+        ...(max === undefined ? {} : {$max: max}),
+    }),
+    stringWith: ({minLength, maxLength, pattern}) => ({
+        $c: 10,
+        ...(minLength === undefined ? {} : {$min: minLength}),
+        ...(maxLength === undefined ? {} : {$max: maxLength}),
+        ...(pattern === undefined
+            ? {}
+            : {$p: isString(pattern) ? pattern : pattern.source}),
+    }),
+    optional: (valueType) => ({$c: 11, $v: valueType}),
+    open: (properties) => ({$c: 12, $p: properties}),
+    ref: (name) => ({$c: 13, $r: name}),
+    date: {$c: 14, $i: 'date'},
+    bigint: {$c: 14, $i: 'bigint'},
+    bytes: {$c: 14, $i: 'bytes'},
+    buffer: {$c: 14, $i: 'buffer'},
+    transferable: {$c: 14, $i: 'transferable'},
+    undefined: {$c: 14, $i: 'undefined'},
+    map: (keyType, valueType) => ({$c: 15, $k: keyType, $v: valueType}),
+    set: (valueType) => ({$c: 16, $v: valueType}),
+    codec: (name) => ({$c: 17, $n: name}),
+    stream: (itemType) => ({$c: 18, $v: itemType}),
+    callback: (args, returns, {persistent} = {}) => ({
+        $c: 19,
+        $a: args,
+        $r: returns,
+        ...(persistent ? {$p: true} : {}),
+    }),
+};
+
+// the typescript type of values described by a Sendable
+// fixed structure arrays are only mapped to tuples when typescript infers them
+// as tuples (as it does for the args of defineFunction)
+export type SendableType<S> = S extends 0
+    ? null
+    : S extends 1
+    ? string
+    : S extends 2
+    ? number
+    : S extends 3
+    ? boolean
+    : S extends {$c: 4; $v: infer V}
+    ? SendableArray<V>
+    : S extends {$c: 5; $k: 2; $v: infer N}
+    ? {[key: number]: SendableType<N>}
+    : S extends {$c: 5; $v: infer O}
+    ? {[key: string]: SendableType<O>}
+    : S extends {$c: 6; $t: infer T}
+    ? SendableTypes<T>[number & keyof T]
+    : S extends {$c: 7; $l: infer L}
+    ? L
+    : S extends {$c: 8; $e: (infer E)[]}
+    ? E
+    : S extends {$c: 9}
+    ? number
+    : S extends {$c: 10}
+    ? string
+    : S extends {$c: 11}
+    ? unknown // only meaningful as a property
+    : S extends {$c: 12; $p: infer P}
+    ? SendableObject<P> & {[key: string]: unknown}
+    : S extends {$c: 13; $T?: infer D}
+    ? D
+    : S extends {$c: 14; $i: 'date'}
+    ? Date
+    : S extends {$c: 14; $i: 'bigint'}
+    ? bigint
+    : S extends {$c: 14; $i: 'bytes'}
+    ? Uint8Array
+    : S extends {$c: 14; $i: 'buffer'}
+    ? ArrayBuffer
+    : S extends {$c: 14; $i: 'transferable'}
+    ? Transferable
+    : S extends {$c: 14; $i: 'undefined'}
+    ? undefined
+    : S extends {$c: 15; $k: infer MK; $v: infer MV}
+    ? SendableMap<MK, MV>
+    : S extends {$c: 16; $v: infer SV}
+    ? SendableSet<SV>
+    : S extends {$c: 17; $T?: infer C}
+    ? C
+    : S extends {$c: 18; $v: infer I}
+    ? SendableStream<I>
+    : S extends {$c: 19; $a: infer CA; $r: infer CR}
+    ? CA extends any[]
+        ? SendableCallback<CA, CR>
+        : never
+    : S extends any[]
+    ? SendableTypes<S>
+    : S extends object
+    ? SendableObject<S>
+    : never;
+
+// typescript only allows SendableType to refer to itself inside object types
+interface SendableArray<V> extends Array<SendableType<V>> {}
+interface SendableMap<K, V> extends Map<SendableType<K>, SendableType<V>> {}
+interface SendableSet<V> extends Set<SendableType<V>> {}
+interface SendableStream<V> extends AsyncIterable<SendableType<V>> {}
+type SendableCallback<A extends any[], R> = (
+    ...args: SendableArgs<A>
+) => SendableType<R> | Promise<SendableType<R>>;
+type SendableTypes<S> = {[K in keyof S]: SendableType<S[K]>};
+type SendableObject<S> = SendableTypes<Pick<S, RequiredKeys<S>>> &
+    Partial<SendableTypes<OptionalValues<S>>>;
+type OptionalValues<S> = {
+    [K in OptionalKeys<S>]: S[K] extends {$v: infer V} ? V : never;
+};
+type OptionalKeys<S> = {
+    [K in keyof S]: S[K] extends {$c: 11} ? K : never;
+}[keyof S];
+type RequiredKeys<S> = Exclude<keyof S, OptionalKeys<S>>;
+
+// the typescript parameter list of a function with these Sendable args
+// optional args may be undefined, validation also accepts calls which leave
+// out the optional args after the last required one
+export type SendableArgs<A> = {
+    [I in keyof A]: A[I] extends {$c: 11; $v: infer V}
+        ? SendableType<V> | undefined
+        : SendableType<A[I]>;
+};
+
+// the typescript type of a function with these Sendable args and returns
+export type SendableFunction<A, R> = SendableArgs<A> extends infer P
+    ? P extends any[]
+        ? (
+              this: CallContext,
+              ...args: P
+          ) => SendableType<R> | Promise<SendableType<R>>
+        : never
+    : never;
+
+// published functions are called with a CallContext as this
+export type LocalFunction = (this: CallContext, ...args: any[]) => any;
+
+export type CallContext = {
+    name: LocalFunctionName;
+    signal: AbortSignal; // aborted when the caller cancels or the channel closes
+    metadata: Metadata; // sent by the caller
+    resultMetadata: Metadata; // sent to the caller with the result
+    peer: PeerInfo; // the other side of the channel
+    deadline?: number; // when the caller stops waiting, a Date.now() time
+};
+
+// values sent along with a call or its result, e.g. a traceparent
+// they must be sendable over the channel
+export type Metadata = {[key: string]: any};
+
+// a call as seen by middleware
+export type CallInfo = {
+    name: string;
+    args: any[]; // replace before calling next to change the args
+    oneway: boolean; // a notification, which has no result
+    signal?: AbortSignal;
+    metadata: Metadata; // sent with the call
+    resultMetadata: Metadata; // sent back with the result
 };
 
-export type LocalFunction = (...args: any[]) => Promise<any>;
+// calls next to continue the call, and returns its result
+// a middleware may return without calling next, change the result, or
+// call next again to retry
+export type Middleware = (
+    call: CallInfo,
+    next: () => Promise<any>
+) => Promise<any>;
+
+export type CallOptions = {
+    timeout?: number; // milliseconds, including the wait for publication
+    signal?: AbortSignal;
+    idempotent?: boolean; // sent again after reconnecting, see registerReconnect
+    metadata?: Metadata; // added to the metadata of the channel
+};
 
 export type LocalFunctionDefinition = {
     name: LocalFunctionName;
     args: Sendable[];
     returns: Sendable;
     fn: LocalFunction;
+    oneway?: boolean; // calls from the other side are notifications, see notify
+    limits?: FunctionLimits; // of the calls to this function, see ChannelParams.limits
+    // whether the call may run, e.g. by this.peer.identity, after the args
+    // are validated; calls which are not authorized fail with an
+    // UnauthorizedError, notifications are dropped
+    authorize?: (
+        this: CallContext,
+        ...args: any[]
+    ) => boolean | Promise<boolean>;
+};
+
+// a LocalFunctionDefinition which remembers its schemas, see defineFunction
+export type TypedFunctionDefinition<A, R> = {
+    name: LocalFunctionName;
+    args: A;
+    returns: R;
+    fn: SendableFunction<A, R>;
+};
+
+// the call signature of a published function as seen from the other side
+// definitions with untyped schemas (e.g. LocalFunctionDefinition) are untyped
+export type RemoteFunction<D> = D extends {args: infer A; returns: infer R}
+    ? Sendable[] extends A
+        ? UntypedFunction
+        : Sendable extends R
+        ? UntypedFunction
+        : SendableArgs<A> extends infer P
+        ? P extends any[]
+            ? (...args: P) => Promise<SendableType<R>>
+            : never
+        : never
+    : UntypedFunction;
+
+type UntypedFunction = (...args: any[]) => Promise<any>;
+
+// the interface of a remote peer, from a record of its function definitions
+// e.g. createChannel<RemoteFunctions<{add: typeof addDefinition}>>(params)
+export type RemoteFunctions<D> = {[K in keyof D]: RemoteFunction<D[K]>};
+
+// notifications call remote functions without waiting for a result
+// they resolve when the notification is sent
+export type Notifications<Remote> = {
+    [K in keyof Remote]: Remote[K] extends (...args: infer P) => any
+        ? (...args: P) => Promise<void>
+        : never;
 };
 
+// handles the payloads of a topic, see Channel.on
+export type EventHandler<S> = (payload: SendableType<S>) => void;
+
+// checks fn against args and returns at compile time
+// the name is not checked, it only needs to be a string
+export function defineFunction<
+    A extends [] | Sendable[],
+    R extends Sendable
+>(lfd: {
+    name: string;
+    args: A;
+    returns: R;
+    fn: SendableFunction<A, R>;
+}): TypedFunctionDefinition<A, R> {
+    return lfd as TypedFunctionDefinition<A, R>;
+}
+
 export type RemoteFunctionDefinition = {
     name: RemoteFunctionName;
     args: Sendable[];
     returns: Sendable;
+    oneway?: true; // see LocalFunctionDefinition
+};
+
+// what the other side publishes, see Channel.remote
+export type RemoteCatalog = {
+    list: () => string[]; // the names of the published functions
+    // undefined unless the function is published
+    // definitions holds the named definitions its args and returns refer to
+    describe: (
+        name: string
+    ) => (RemoteFunctionDefinition & {definitions: Definitions}) | undefined;
+    // resolves once all the functions are published
+    // fails like a call when the timeout passes or the channel closes
+    ready: (...names: string[]) => Promise<void>;
 };
 
 export type ChannelParams = {
-    send: (o: any) => void;
+    // transfer lists the objects to transfer, when the transport carries them
+    send: (o: any, transfer?: Transferable[]) => void;
     registerReceive: (receive: (o: any) => Promise<void>) => void;
     registerClose: (close: () => void) => void;
+    transferables?: boolean; // send carries transferable objects, see transfer
     publish?: LocalFunctionDefinition[];
     logging?: boolean | ((...args: any[]) => void);
+    errors?: ApplicationErrorClass[]; // rebuilt with their own class when received
+    sendStack?: boolean; // send stack traces of exceptions to the caller
+    timeout?: number; // default CallOptions.timeout for every call
+    definitions?: Definitions; // sent to the other side when first referenced
+    codecs?: Codec[]; // used before the builtin codecs, referenced by H.codec
+    streamCredits?: number; // stream items sent ahead of the receiver, default 16
+    batching?: boolean | BatchOptions; // send messages together, see channel.batch
+    // for transports which reconnect, the channel is disconnected until connected is called
+    // calls in flight fail when the connection drops, unless they are idempotent
+    registerReconnect?: (
+        disconnected: () => void,
+        connected: () => void
+    ) => void;
+    features?: Feature[]; // the optional features this side enables, default all
+    info?: any; // sent to the other side in the handshake, e.g. the application version
+    // returns a reason to refuse the other side, e.g. an incompatible application version
+    checkPeer?: (peer: PeerInfo) => string | undefined;
+    credentials?: any; // sent to the other side in the handshake, e.g. a token
+    // resolves with the identity of the other side, see PeerInfo.identity
+    // the other side is refused when it throws or resolves undefined
+    // nothing is sent to the other side, and nothing it sends is handled,
+    // until it is authenticated
+    authenticate?: (credentials: any, peer: PeerInfo) => any | Promise<any>;
+    // middleware around calls and notifications, the first is the outermost
+    // callbacks are called without middleware
+    outgoing?: Middleware[]; // to the other side, before the args are sent
+    incoming?: Middleware[]; // of published functions, after the args are validated
+    metadata?: Metadata; // sent with every call and notification, see CallOptions
+    // calls from the other side which wait beyond concurrency are queued
+    // calls beyond the queue or the rate, and calls to the other side beyond
+    // inFlight, fail with an OverloadedError
+    limits?: ChannelLimits;
+    // what this side expects of the functions the other side publishes
+    contracts?: Contracts;
+    // values are validated in both directions, unless they are turned off
+    // e.g. for a trusted peer, see ValidationOptions
+    validation?: ValidationOptions;
+    // a message beyond the limits closes the channel
+    messageLimits?: MessageLimits;
+};
+
+// incoming: args, notifications, results, events and stream items received
+// outgoing: payloads of emitted events
+// both default to true
+export type ValidationOptions = {
+    incoming?: boolean;
+    outgoing?: boolean;
+};
+
+// the version of the messages channels exchange
+// channels with different protocol versions refuse each other
+export const PROTOCOL_VERSION = 1;
+
+// optional features are used when both sides enable them
+// batching: batch envelopes, streams: H.stream values, callbacks: H.callback values
+export type Feature = 'batching' | 'streams' | 'callbacks';
+const allFeatures: Feature[] = ['batching', 'streams', 'callbacks'];
+
+// the other side of a channel, as described in its handshake
+export type PeerInfo = {
+    protocol: number;
+    features: Feature[]; // the features both sides enable
+    codecs: string[]; // the names of the codecs of the other side
+    info?: any;
+    identity?: any; // what ChannelParams.authenticate resolved with
+};
+
+// messages are sent together when the window closes or the batch is full
+export type BatchOptions = {
+    window?: number; // milliseconds, by default messages sent in the same tick
+    maxSize?: number; // number of messages
 };
 
 type Message =
+    | {
+          type: 'hello'; // the first message on a connection
+          protocol: number;
+          features: Feature[];
+          codecs: string[];
+          info?: any;
+          credentials?: any;
+          reply?: true; // answers the hello of the other side, and is not answered
+      }
     | {
           type: 'publish';
           name: AnyFunctionName;
           args: Sendable;
           returns: Sendable;
+          oneway?: true;
       }
     | {
           type: 'call';
           nonce: number;
           name: RemoteFunctionName;
           args: any;
+          callback?: number; // calls a callback passed to the other side instead
+          metadata?: Metadata;
+          timeout?: number; // milliseconds until the caller stops waiting
       }
     | {
           type: 'result';
           nonce: number;
           value: any;
+          metadata?: Metadata;
       }
-    | {
+    | ({
           type: 'error'; // a function call failed for some reason
           nonce: number;
-          message: string;
-      }
+      } & ErrorDescription)
     | {
           type: 'expect'; // a request for a function that may have already been published
           name: AnyFunctionName;
-      };
+      }
+    | {
+          type: 'cancel'; // the caller is no longer waiting for the result
+          nonce: number;
+      }
+    | {
+          type: 'define'; // a named Sendable referenced by published functions
+          name: string;
+          definition: Sendable;
+      }
+    | {
+          type: 'release'; // a persistent callback will not be called again
+          callback: number;
+      }
+    | {
+          type: 'notify'; // a call without a result
+          name: RemoteFunctionName;
+          args: any;
+          metadata?: Metadata;
+      }
+    | {
+          type: 'subscribe'; // the sender handles events of the topic
+          topic: string;
+          payload: Sendable;
+      }
+    | {
+          type: 'unsubscribe';
+          topic: string;
+      }
+    | {
+          type: 'event';
+          topic: string;
+          payload: any;
+      }
+    | {
+          type: 'batch'; // messages which are received in order
+          messages: Message[];
+      }
+    | {
+          type: 'unpublish'; // the function may no longer be called
+          name: AnyFunctionName;
+      }
+    | {
+          type: 'close'; // the sender closed the channel
+          reason?: string;
+      }
+    | StreamMessage;
 
 type InFlightRPC = {
     name: RemoteFunctionName;
     returns: Sendable;
+    schemas: Schemas; // which the result is checked with
+    signal?: AbortSignal; // also cancels a streamed result
+    resend?: () => void; // for idempotent calls, after reconnecting
+    call?: CallInfo; // receives the metadata of the result
     resolve: (...args: any) => void;
-    fail: (...args: any) => void;
+    fail: (e: RpcError) => void;
 };
 
-type Channel = {publish: (rfd: LocalFunctionDefinition) => void} & {
-    [key: string]: (...args: any) => Promise<any>;
+type UntypedRemote = {[key: string]: UntypedFunction};
+
+export type Channel<Remote = UntypedRemote> = {
+    publish: (rfd: LocalFunctionDefinition) => void;
+    withOptions: (options: CallOptions) => Remote; // e.g. for a single call
+    notify: Notifications<Remote>;
+    // handles the events of a topic which the other side emits
+    // returns a function which removes the handler
+    on: <S extends Sendable>(
+        topic: string,
+        payload: S,
+        handler: EventHandler<S>
+    ) => () => void;
+    // returns whether the other side handles the topic
+    // throws an InvalidArgumentsError when the payload is invalid
+    emit: (topic: string, payload: any) => boolean;
+    // sends the messages of calls made before fn first awaits together
+    batch: <T>(fn: () => T | Promise<T>) => Promise<T>;
+    // the other side waits for the function to be published again
+    unpublish: (name: string) => void;
+    // closes both sides of the channel, the transport stays open
+    close: (reason?: string) => void;
+    // resolves with the reason given to close, on either side
+    // or undefined when the transport closed
+    closed: Promise<string | undefined>;
+    // the on handlers return a function which removes the handler
+    // open handlers are called when the channel is connected (immediately
+    // unless the transport reconnects) and whenever it reconnects
+    onOpen: (handler: () => void) => () => void;
+    onClose: (handler: (reason?: string) => void) => () => void;
+    onPublish: (handler: (name: string) => void) => () => void;
+    // resolves when the other side completes the handshake
+    // rejects with a ConnectionClosedError when the channel closes first
+    peer: Promise<PeerInfo>;
+    remote: RemoteCatalog;
+} & Remote;
+
+// a deadline is a timeout fixed when the call is made
+type CallLimits = {
+    deadline?: number;
+    signal?: AbortSignal;
+    idempotent?: boolean;
 };
 
-export function createChannel(params: ChannelParams): Channel {
-    const send: (o: Message) => void = params.send;
-    const registerReceive: (r: (o: Message) => Promise<void>) => void =
-        params.registerReceive;
+export function createChannel<Remote = UntypedRemote>(
+    params: ChannelParams
+): Channel<Remote> {
+    const codecs = [...(params.codecs || []), ...builtinCodecs];
+    const batching = params.batching === true ? {} : params.batching || null;
+
+    // encoded messages waiting to be sent together, with their transferables
+    let queue: {o: any; transfer: Transferable[]}[] | null = null;
+    let connected = !params.registerReconnect;
+    let batchTimer: ReturnType<typeof setTimeout> | undefined;
+    let scopes = 0; // channel.batch calls which are running
+
+    // the other side, once its hello arrives
+    let peer: PeerInfo | undefined;
+    let peerCodecs: Codec[] = [];
+    const features = params.features || allFeatures;
+    const enabled = (f: Feature) => !!peer && peer.features.includes(f);
+    const pending: Message[] = []; // sent before the hello of the other side arrived
+
+    // transports are only given a transfer list when there is something to transfer
+    const sendEncoded = (o: any, transfer: Transferable[]): void => {
+        if (transfer.length === 0) params.send(o);
+        else params.send(o, Array.from(new Set(transfer)));
+    };
+
+    const flush = (): void => {
+        const messages = queue;
+        queue = null;
+        clearTimeout(batchTimer);
+        if (messages && messages.length > 0) {
+            if (messages.length === 1 || !enabled('batching')) {
+                messages.forEach((q) => sendEncoded(q.o, q.transfer));
+            } else {
+                sendEncoded(
+                    {type: 'batch', messages: messages.map((q) => q.o)},
+                    messages.flatMap((q) => q.transfer)
+                );
+            }
+        }
+    };
+
+    // only codecs which the other side knows are used
+    const send = (m: Message): void => {
+        if (!connected) {
+            return; // the transport drops messages while disconnected
+        } else if (!peer) {
+            pending.push(m);
+            return;
+        }
+
+        const transfer: Transferable[] = [];
+        const o = encodeValue(
+            m,
+            peerCodecs,
+            params.transferables ? transfer : undefined
+        );
+        if (!batching && scopes === 0) {
+            sendEncoded(o, transfer);
+            return;
+        }
+
+        if (!queue) {
+            queue = [];
+            if (scopes === 0) {
+                if (batching?.window) {
+                    batchTimer = setTimeout(flush, batching.window);
+                } else {
+                    Promise.resolve().then(flush);
+                }
+            }
+        }
+        queue.push({o, transfer});
+        if (batching?.maxSize && queue.length >= batching.maxSize) flush();
+    };
+
+    // messages are objects with a type, and batches are lists of messages
+    const wellFormed = (m: any): boolean => {
+        if (!isRecord(m)) return false;
+        const {type, messages} = m as {type?: unknown; messages?: unknown};
+        return (
+            isString(type) &&
+            (type !== 'batch' ||
+                (isArray(messages) && messages.every(wellFormed)))
+        );
+    };
+
+    // the messages of a batch are received in order, without waiting
+    // for the previous messages to be handled
+    const registerReceive = (r: (m: Message) => Promise<void>): void => {
+        const unpack = async (m: Message): Promise<void> => {
+            if (m.type === 'batch') await Promise.all(m.messages.map(unpack));
+            else await r(m);
+        };
+        // messages beyond the limits close the channel, and so do messages
+        // which can not be decoded or are malformed, instead of failing the
+        // transport
+        // exceptions while handling a message are logged, they do not
+        // mean the other side is at fault
+        params.registerReceive(async (o) => {
+            const {messageLimits} = params;
+            let m: Message;
+            try {
+                const exceeded =
+                    messageLimits && checkMessage(o, messageLimits);
+                if (exceeded !== undefined) {
+                    refuse(exceeded);
+                    return;
+                }
+                m = decodeValue(o, codecs);
+                if (!wellFormed(m)) {
+                    throw new ProtocolError('malformed message');
+                }
+            } catch (e) {
+                log('could not decode message', o, e);
+                if (open) refuse('malformed message');
+                return;
+            }
+            try {
+                await unpack(m);
+            } catch (e) {
+                log('Exception while handling message', m, e);
+            }
+        });
+    };
     const {registerClose} = params;
-    const {publish} = params;
+    const {publish, errors, sendStack = false} = params;
+    const {definitions = {}, streamCredits = 16} = params;
+    const {outgoing = [], incoming = []} = params;
+    const {functions: contracted = [], mismatch = 'warn'} =
+        params.contracts || {};
+    const onMismatch =
+        params.contracts?.onMismatch ||
+        (mismatch === 'warn'
+            ? (message: string) => console.warn(message)
+            : () => {});
+    const contracts = dictionary<FunctionContract>();
+    for (const c of contracted) contracts[c.name] = c;
+    const {inFlight: maxInFlight = Infinity, ...channelLimits} =
+        params.limits || {};
+    const remoteDefinitions: Definitions = dictionary();
+    const schemas = {definitions, codecs};
+    const remoteSchemas = {definitions: remoteDefinitions, codecs};
+
+    // validators are compiled once for each type, when the function or topic
+    // is published or subscribed, or else when the type is first used
+    const validators = new WeakMap<Schemas, WeakMap<object, Validator>>();
+    const validatorFor = (type: Sendable, s: Schemas): Validator => {
+        if (!isArray(type) && !isRecord(type)) {
+            return (value, path) => validate(value, type, path, s);
+        }
+        let compiled = validators.get(s);
+        if (!compiled) validators.set(s, (compiled = new WeakMap()));
+        let validator = compiled.get(type);
+        if (!validator) {
+            try {
+                validator = compileValidator(type, s);
+            } catch (e) {
+                // malformed types of the other side fail as validate fails
+                validator = (value, path) => validate(value, type, path, s);
+            }
+            compiled.set(type, validator);
+        }
+        return validator;
+    };
+    type Validate = (
+        value: any,
+        type: Sendable,
+        path: string,
+        s: Schemas
+    ) => ValidationIssue[];
+    const validated: Validate = (value, type, path, s) =>
+        validatorFor(type, s)(value, path);
+    const {validation = {}} = params;
+    const validateIncoming: Validate =
+        validation.incoming === false ? () => [] : validated;
+    const validateOutgoing: Validate =
+        validation.outgoing === false ? () => [] : validated;
 
     let open = true;
     let counter = 1;
-    const remoteFunctions: {[key: string]: (...a: any[]) => Promise<any>} = {};
+    const remoteFunctions = dictionary<
+        (args: any[], limits: CallLimits, call?: CallInfo) => Promise<any>
+    >();
+    const remoteNotifications = dictionary<
+        (args: any[], call?: CallInfo) => void
+    >();
+    const remotePublished = dictionary<RemoteFunctionDefinition>();
     const inFlight: {[key: number]: InFlightRPC} = {};
-    const published: {[key: string]: LocalFunctionDefinition} = {};
-    const expected: {[key: string]: (() => void)[]} = {}; // functions we expect to be published
+    let inFlightCount = 0; // the calls in inFlight, for limits.inFlight
+    const forget = (nonce: number): void => {
+        if (has(inFlight, nonce)) {
+            delete inFlight[nonce];
+            inFlightCount--;
+        }
+    };
+    const published = dictionary<LocalFunctionDefinition>();
+    const limiters = dictionary<Limiter>(); // of published functions
+    const channelLimiter = params.limits
+        ? createLimiter(channelLimits)
+        : undefined;
+    const expected = dictionary<
+        {resolve: () => void; fail: (e: RpcError) => void}[]
+    >(); // functions we expect to be published
+    const running: {[key: number]: AbortController} = {}; // calls from the other side
+    const sentDefinitions = new Set<string>();
+    const callbacks: {[key: number]: LocalFunctionDefinition} = {}; // passed to the other side
+    const subscriptions = dictionary<{
+        payload: Sendable;
+        handlers: EventHandler<any>[];
+    }>(); // topics this side handles
+    const subscribed = dictionary<Sendable>(); // topics the other side handles
+    const closing = new AbortController(); // the signal of notifications
+
+    let resolvePeer = (_: PeerInfo) => {};
+    let rejectPeer = (_: RpcError) => {};
+    const peerInfo = new Promise<PeerInfo>((r, f) => {
+        resolvePeer = r;
+        rejectPeer = f;
+    });
+    peerInfo.catch(() => {}); // unless the application waits for it
+
+    let closeReason: string | undefined;
+    let resolveClosed = (_?: string) => {};
+    const closed = new Promise<string | undefined>((r) => (resolveClosed = r));
+    const openHandlers: (() => void)[] = [];
+    const closeHandlers: ((reason?: string) => void)[] = [];
+    const publishHandlers: ((name: string) => void)[] = [];
 
     const log = isBool(params.logging)
         ? params.logging
@@ -137,20 +945,356 @@ export function createChannel(params: ChannelParams): Channel {
         ? params.logging
         : () => {};
 
-    const sendFunction = (lfd: LocalFunctionDefinition): void => {
-        const {name, args, returns} = lfd;
+    // errors with data which can not be encoded, e.g. cyclic data, are
+    // sent without it
+    const sendError = (nonce: number, e: any): void => {
+        const description = describeError(e, sendStack);
+        try {
+            send({type: 'error', nonce, ...description});
+        } catch (encodeError) {
+            log('could not send error data', nonce, encodeError);
+            send({type: 'error', nonce, ...description, data: undefined});
+        }
+    };
+
+    // resolves with a function which ends the call, once the limits
+    // of the function and of the channel let it run
+    const admit = async (
+        name: string,
+        limiter: Limiter | undefined,
+        signal: AbortSignal
+    ): Promise<() => void> => {
+        const ends: (() => void)[] = [];
+        const end = () => ends.forEach((e) => e());
+        try {
+            for (const l of [limiter, channelLimiter]) {
+                if (l) ends.push(await l.acquire(name, signal));
+            }
+        } catch (e) {
+            end();
+            throw e;
+        }
+        return end;
+    };
+
+    const streams = createStreams({
+        send: (m) => open && send(m),
+        log,
+        credits: streamCredits,
+        errors,
+        sendStack,
+    });
+
+    // the stream of a streamed arg or result, from its placeholder
+    // an invalid item fails the stream with an error of the given class
+    const consumeStream = (
+        placeholder: StreamPlaceholder,
+        type: StreamSendable,
+        path: string,
+        s: Schemas,
+        invalid: new (message: string, details: RpcErrorDetails) => RpcError,
+        prefix: string,
+        signal?: AbortSignal
+    ) =>
+        streams.consume(
+            placeholder,
+            (item, index) => {
+                const issues = validateIncoming(
+                    item,
+                    type.$v,
+                    `${path}[${index}]`,
+                    s
+                );
+                return issues.length > 0
+                    ? new invalid(prefix + describeIssues(issues), {
+                          data: {issues},
+                      })
+                    : undefined;
+            },
+            signal
+        );
+
+    // calls stop when the deadline passes or the signal aborts
+    // returns a function which stops watching
+    const watchLimits = (
+        name: string,
+        limits: CallLimits,
+        stop: (e: RpcError) => void
+    ): (() => void) => {
+        const {deadline, signal} = limits;
+        const timer =
+            deadline === undefined
+                ? undefined
+                : setTimeout(
+                      () => stop(new TimeoutError(`call to ${name} timed out`)),
+                      deadline - Date.now()
+                  );
+        const abort = () =>
+            stop(new CancelledError(`call to ${name} was cancelled`));
+        signal?.addEventListener('abort', abort);
+
+        return () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+        };
+    };
+
+    // streamed args are sent as streams, which stop when the call fails
+    // callbacks are released when the call returns, unless they are persistent
+    // s describes the function: its definitions and codecs
+    const callFunction = (
+        name: RemoteFunctionName,
+        argtypes: Sendable[],
+        returns: Sendable,
+        s: Schemas = remoteSchemas,
+        callback?: number
+    ) => (args: any[], limits: CallLimits, call?: CallInfo) =>
+        new Promise((resolve, fail) => {
+            if (limits.signal?.aborted) {
+                fail(new CancelledError(`call to ${name} was cancelled`));
+                return;
+            } else if (!open) {
+                fail(
+                    new ConnectionClosedError(
+                        `call to ${name} after the channel closed`
+                    )
+                );
+                return;
+            } else if (!connected) {
+                fail(
+                    new ConnectionClosedError(
+                        `call to ${name} while disconnected`
+                    )
+                );
+                return;
+            } else if (maxInFlight < Infinity && inFlightCount >= maxInFlight) {
+                fail(
+                    new OverloadedError(
+                        `call to ${name} with ${maxInFlight} calls in flight`
+                    )
+                );
+                return;
+            }
+
+            // the other side must support the values passed to it
+            let passesCallbacks = false;
+            if (!enabled('callbacks')) {
+                substitute(
+                    args,
+                    argtypes,
+                    isCallback,
+                    (fn) => {
+                        passesCallbacks = passesCallbacks || isFunction(fn);
+                        return fn;
+                    },
+                    s.definitions
+                );
+            }
+            const unsupported =
+                !enabled('streams') &&
+                args.some((a, i) => isStream(argtypes[i]) && isAsyncIterable(a))
+                    ? 'streams'
+                    : passesCallbacks
+                    ? 'callbacks'
+                    : undefined;
+            if (unsupported) {
+                fail(
+                    new UnsupportedFeatureError(
+                        `call to ${name} passes ${unsupported}, which the other side does not support`
+                    )
+                );
+                return;
+            }
+
+            const nonce = counter++;
+            const passed: number[] = [];
+            const values = substitute(
+                args.map((a, i) =>
+                    isStream(argtypes[i]) && isAsyncIterable(a)
+                        ? streams.produce(a)
+                        : a
+                ),
+                argtypes,
+                isCallback,
+                (fn, t: CallbackSendable) => {
+                    if (!isFunction(fn)) return fn;
+                    const id = counter++;
+                    callbacks[id] = {
+                        name: name as AnyFunctionName,
+                        args: t.$a,
+                        returns: t.$r,
+                        fn,
+                    };
+                    if (!t.$p) passed.push(id);
+                    return {$f: id};
+                },
+                s.definitions
+            );
+            const stopStreams = () =>
+                values.filter(isStreamPlaceholder).forEach(streams.stop);
+            const releaseCallbacks = () =>
+                passed.forEach((id) => delete callbacks[id]);
+
+            const unwatch = watchLimits(name, limits, (e) => {
+                unwatch();
+                stopStreams();
+                releaseCallbacks();
+                forget(nonce);
+                if (open) send({type: 'cancel', nonce});
+                fail(e);
+            });
+
+            const message: Message = {
+                type: 'call',
+                nonce,
+                name,
+                args: values,
+                ...(callback === undefined ? {} : {callback}),
+                ...metadataOf(call),
+                ...(limits.deadline === undefined
+                    ? {}
+                    : {timeout: Math.max(0, limits.deadline - Date.now())}),
+            };
+
+            // calls with streams or callbacks can not be sent again
+            const replayable =
+                limits.idempotent &&
+                !contains(
+                    argtypes,
+                    (t) => isStream(t) || isCallback(t),
+                    s.definitions || {}
+                );
+
+            inFlightCount++;
+            inFlight[nonce] = {
+                name,
+                returns,
+                schemas: s,
+                signal: limits.signal,
+                resend: replayable ? () => send(message) : undefined,
+                call,
+                resolve: (value) => {
+                    unwatch();
+                    releaseCallbacks();
+                    resolve(value);
+                },
+                fail: (e) => {
+                    unwatch();
+                    stopStreams();
+                    releaseCallbacks();
+                    fail(e);
+                },
+            };
+
+            try {
+                send(message);
+            } catch (e) {
+                log('could not send call', name, e);
+                forget(nonce);
+                unwatch();
+                stopStreams();
+                releaseCallbacks();
+                fail(e);
+            }
+        });
+
+    // calls a callback which the other side passed in a call to name
+    const callbackStub = (
+        placeholder: CallbackPlaceholder,
+        type: CallbackSendable,
+        name: string
+    ) => {
+        const id = placeholder.$f;
+        const stubName = `${name} callback` as RemoteFunctionName;
+        const call = callFunction(stubName, type.$a, type.$r, schemas, id);
+        const stub = async (...args: any[]) => {
+            if (!open) throw new ConnectionClosedError('Connection Closed');
+            const timeout = params.timeout;
+            return await call(args, {
+                deadline:
+                    timeout === undefined ? undefined : Date.now() + timeout,
+            });
+        };
+        if (type.$p) {
+            stubs.set(
+                stub,
+                () => open && send({type: 'release', callback: id})
+            );
+        }
+        return stub;
+    };
+
+    // resolves when the other side publishes the function
+    const expectFunction = (name: string, limits: CallLimits) =>
+        new Promise<void>((resolve, fail) => {
+            if (limits.signal?.aborted) {
+                fail(new CancelledError(`call to ${name} was cancelled`));
+                return;
+            } else if (!open) {
+                fail(
+                    new ConnectionClosedError(
+                        `call to ${name} after the channel closed`
+                    )
+                );
+                return;
+            }
+
+            const waiting = {
+                resolve: () => {
+                    unwatch();
+                    resolve();
+                },
+                fail: (e: RpcError) => {
+                    unwatch();
+                    fail(e);
+                },
+            };
+            const unwatch = watchLimits(name, limits, (e) => {
+                expected[name] = expected[name].filter((w) => w !== waiting);
+                waiting.fail(e);
+            });
+
+            if (has(expected, name)) {
+                expected[name].push(waiting);
+            } else {
+                expected[name] = [waiting];
+            }
+
+            send({type: 'expect', name: name as AnyFunctionName});
+        });
+
+    // the definitions the types refer to are sent once, unless sent again
+    const sendDefinitions = (types: Sendable[], again: boolean): void => {
+        for (const ref of references(types, definitions)) {
+            if (!has(definitions, ref)) {
+                log('sent schema refers to an unknown definition', ref);
+            } else if (again || !sentDefinitions.has(ref)) {
+                sentDefinitions.add(ref);
+                send({type: 'define', name: ref, definition: definitions[ref]});
+            }
+        }
+    };
+
+    // definitions are sent again when the function is expected again
+    const sendFunction = (
+        lfd: LocalFunctionDefinition,
+        again = false
+    ): void => {
+        const {name, args, returns, oneway} = lfd;
 
+        sendDefinitions([args, returns], again);
         send({
             type: 'publish',
             name: name as AnyFunctionName,
             args,
             returns,
+            ...(oneway ? {oneway} : {}),
         });
     };
 
     const publishFunction = (lfd: LocalFunctionDefinition): void => {
         const {name} = lfd;
-        if (published.hasOwnProperty(name)) {
+        if (has(published, name)) {
             throw new Error(
                 'channel already has a published function called ' + name
             );
@@ -158,101 +1302,603 @@ export function createChannel(params: ChannelParams): Channel {
 
         // send the function definition to the other side
         published[name] = lfd as LocalFunctionDefinition;
+        if (lfd.limits) limiters[name] = createLimiter(lfd.limits);
+        validatorFor(lfd.args, schemas);
         sendFunction(lfd);
     };
 
+    // calls which are running are not cancelled
+    const unpublishFunction = (name: string): void => {
+        if (!has(published, name)) {
+            throw new Error('channel has no published function called ' + name);
+        }
+
+        delete published[name];
+        delete limiters[name];
+        if (open) send({type: 'unpublish', name: name as AnyFunctionName});
+    };
+
+    // a topic has one payload schema, which is sent to the other side
+    const subscribe = (
+        topic: string,
+        payload: Sendable,
+        handler: EventHandler<any>
+    ): (() => void) => {
+        if (!has(subscriptions, topic)) {
+            subscriptions[topic] = {payload, handlers: [handler]};
+            validatorFor(payload, schemas);
+            sendDefinitions([payload], false);
+            send({type: 'subscribe', topic, payload});
+        } else if (
+            JSON.stringify(subscriptions[topic].payload) !==
+            JSON.stringify(payload)
+        ) {
+            throw new Error(
+                `channel already handles ${topic} with another payload`
+            );
+        } else {
+            subscriptions[topic].handlers.push(handler);
+        }
+
+        return () => {
+            const subscription = subscriptions[topic];
+            if (subscription && subscription.handlers.includes(handler)) {
+                subscription.handlers = subscription.handlers.filter(
+                    (h) => h !== handler
+                );
+                if (subscription.handlers.length === 0) {
+                    delete subscriptions[topic];
+                    if (open) send({type: 'unsubscribe', topic});
+                }
+            }
+        };
+    };
+
+    // payloads are checked against the schema of the other side
+    const emit = (topic: string, payload: any): boolean => {
+        if (!open || !has(subscribed, topic)) return false;
+
+        const issues = validateOutgoing(
+            payload,
+            subscribed[topic],
+            'payload',
+            remoteSchemas
+        );
+        if (issues.length > 0) {
+            throw new InvalidArgumentsError(
+                `invalid payload for ${topic}: ${describeIssues(issues)}`,
+                {data: {issues}}
+            );
+        }
+        send({type: 'event', topic, payload});
+        return true;
+    };
+
+    // hello and close messages are sent as they are, without codecs
+    const sendHello = (reply: boolean): void => {
+        params.send({
+            type: 'hello',
+            protocol: PROTOCOL_VERSION,
+            features,
+            codecs: codecs.map((c) => c.name),
+            ...(params.info === undefined ? {} : {info: params.info}),
+            ...(params.credentials === undefined
+                ? {}
+                : {credentials: params.credentials}),
+            ...(reply ? {reply} : {}),
+        });
+    };
+
+    const refuse = (reason: string): void => {
+        log('refused the other side', reason);
+        params.send({type: 'close', reason});
+        shutdown(reason);
+    };
+
+    // either hello may be lost when the other side is not listening yet
+    // so each hello which is not a reply is answered
+    // the messages sent before the handshake follow the reply
+    // with authenticate, the handshake completes when the other side is
+    // authenticated, and returns a promise which the messages after the
+    // hello wait for
+    const handshake = (
+        m: Message & {type: 'hello'}
+    ): Promise<void> | undefined => {
+        if (!peer) {
+            if (m.protocol !== PROTOCOL_VERSION) {
+                refuse(
+                    `incompatible protocol version ${m.protocol}, expected ${PROTOCOL_VERSION}`
+                );
+                return;
+            }
+            const info: PeerInfo = {
+                protocol: m.protocol,
+                features: features.filter(
+                    (f) => isArray(m.features) && m.features.includes(f)
+                ),
+                codecs: isArray(m.codecs) ? m.codecs : [],
+                ...(m.info === undefined ? {} : {info: m.info}),
+            };
+            const reason = params.checkPeer?.(info);
+            if (reason !== undefined) {
+                refuse(reason);
+                return;
+            } else if (params.authenticate) {
+                return authenticate(m, info, params.authenticate);
+            }
+            accept(m, info);
+        } else if (!m.reply) {
+            sendHello(true);
+        }
+        return;
+    };
+
+    const authenticate = async (
+        m: Message & {type: 'hello'},
+        info: PeerInfo,
+        verify: NonNullable<ChannelParams['authenticate']>
+    ): Promise<void> => {
+        let identity: any;
+        try {
+            identity = await verify(m.credentials, info);
+        } catch (e) {
+            log('authentication failed', e);
+        }
+        if (!open) {
+            return;
+        } else if (identity === undefined) {
+            refuse('authentication failed');
+        } else {
+            accept(m, {...info, identity});
+        }
+    };
+
+    const accept = (m: Message & {type: 'hello'}, info: PeerInfo): void => {
+        peer = info;
+        peerCodecs = codecs.filter((c) => info.codecs.includes(c.name));
+        resolvePeer(info);
+        if (!m.reply) sendHello(true);
+        pending.splice(0).forEach(send);
+    };
+
+    // the handshake which the messages received after the hello wait for
+    let handshaking: Promise<void> | undefined;
+
     registerReceive(async (m: Message) => {
+        if (handshaking) {
+            await handshaking;
+            if (!open) return;
+        }
+        if (!peer && m.type !== 'hello' && m.type !== 'close') {
+            refuse('the other side did not send hello');
+            return;
+        }
+
         switch (m.type) {
+            case 'hello':
+                log('received hello message', m);
+                handshaking = handshake(m);
+                if (handshaking) {
+                    await handshaking;
+                    handshaking = undefined;
+                }
+                break;
             case 'call':
                 {
-                    const {name, nonce, args} = m;
-                    if (!published.hasOwnProperty(name)) {
+                    const {name, nonce, args, callback} = m;
+                    // callbacks are described by the other side
+                    const [lfd, s] =
+                        callback === undefined
+                            ? [published[name], schemas]
+                            : [callbacks[callback], remoteSchemas];
+                    if (
+                        callback === undefined
+                            ? !has(published, name)
+                            : !has(callbacks, callback)
+                    ) {
                         log('call to unpublished function', m);
-                        send({
-                            type: 'error',
+                        sendError(
                             nonce,
-                            message: `Unpublished Function: ${name}`,
-                        });
-                    } else
+                            new UnpublishedFunctionError(
+                                callback === undefined
+                                    ? `Unpublished Function: ${name}`
+                                    : `Released Callback: ${name}`
+                            )
+                        );
+                    } else {
+                        const controller = new AbortController();
+                        const {fn, args: argstype, returns, authorize} = lfd;
+                        const limiter =
+                            callback === undefined ? limiters[name] : undefined;
+                        let endCall = () => {};
+
+                        // streamed args arrive as placeholders, their streams
+                        // are stopped when the call (or its streamed result) ends
+                        const consumed = (isArray(args) ? args : []).map(
+                            (a, i) => {
+                                const t = argstype[i];
+                                return isStream(t) && isStreamPlaceholder(a)
+                                    ? consumeStream(
+                                          a,
+                                          t,
+                                          `args[${i}]`,
+                                          s,
+                                          InvalidArgumentsError,
+                                          'Invalid Arguments: '
+                                      )
+                                    : undefined;
+                            }
+                        );
+                        const stopStreams = () =>
+                            consumed.forEach((c) => c && c.return!());
+                        // a streamed result keeps the call running, and its
+                        // limits, until the stream ends
+                        let stream: StreamPlaceholder | undefined;
+
                         try {
-                            const {fn, args: argstype} = published[name];
-                            if (validate(args, argstype)) {
-                                let result = await fn(...args);
+                            const values = substitute(
+                                isArray(args)
+                                    ? args.map((a, i) => consumed[i] || a)
+                                    : args,
+                                argstype,
+                                isCallback,
+                                (a, t: CallbackSendable) =>
+                                    isCallbackPlaceholder(a)
+                                        ? callbackStub(a, t, name)
+                                        : a,
+                                s.definitions
+                            );
+                            const issues = validateIncoming(
+                                values,
+                                argstype,
+                                'args',
+                                s
+                            );
+                            if (issues.length === 0) {
+                                const call: CallInfo = {
+                                    name,
+                                    args: values,
+                                    oneway: false,
+                                    signal: controller.signal,
+                                    metadata: isRecord(m.metadata)
+                                        ? m.metadata
+                                        : {},
+                                    resultMetadata: {},
+                                };
+                                const context: CallContext = {
+                                    name: name as AnyFunctionName,
+                                    signal: controller.signal,
+                                    metadata: call.metadata,
+                                    resultMetadata: call.resultMetadata,
+                                    peer: peer!,
+                                    ...(isNumber(m.timeout)
+                                        ? {deadline: Date.now() + m.timeout}
+                                        : {}),
+                                };
+                                running[nonce] = controller;
+                                if (
+                                    authorize &&
+                                    !(await authorize.apply(context, call.args))
+                                ) {
+                                    throw new UnauthorizedError(
+                                        `call to ${name} is not authorized`
+                                    );
+                                }
+                                // calls without limits run at once
+                                if (limiter || channelLimiter) {
+                                    endCall = await admit(
+                                        name,
+                                        limiter,
+                                        controller.signal
+                                    );
+                                }
+                                let result = await runMiddleware(
+                                    incoming,
+                                    call,
+                                    async () => fn.apply(context, call.args)
+                                );
                                 if (
-                                    result === undefined ||
-                                    typeof result === 'undefined'
+                                    result === undefined &&
+                                    validate(result, returns, '', s).length > 0
                                 )
                                     result = null;
-                                if (open)
+                                if (open && !controller.signal.aborted) {
+                                    if (
+                                        isStream(returns) &&
+                                        isAsyncIterable(result)
+                                    ) {
+                                        if (!enabled('streams')) {
+                                            throw new UnsupportedFeatureError(
+                                                `${name} returns a stream, which the caller does not support`
+                                            );
+                                        }
+                                        result = stream = streams.produce(
+                                            result,
+                                            (stopped) => {
+                                                if (stopped) controller.abort();
+                                                stopStreams();
+                                                endCall();
+                                            }
+                                        );
+                                    }
                                     send({
                                         type: 'result',
                                         nonce,
                                         value: result,
+                                        ...metadataOf({
+                                            metadata: call.resultMetadata,
+                                        }),
                                     });
+                                }
                             } else {
-                                log(
-                                    'Invalid Incoming Arguments',
-                                    args,
-                                    argstype
-                                );
-                                send({
-                                    type: 'error',
+                                log('Invalid Incoming Arguments', issues);
+                                sendError(
                                     nonce,
-                                    message: 'Invalid Arguments',
-                                });
+                                    new InvalidArgumentsError(
+                                        'Invalid Arguments: ' +
+                                            describeIssues(issues),
+                                        {data: {issues}}
+                                    )
+                                );
                             }
                         } catch (e) {
-                            send({
-                                type: 'error',
-                                nonce,
-                                message: 'Exception: ' + e.toString(),
-                            });
+                            log('Exception in published function', name, e);
+                            if (open && !controller.signal.aborted)
+                                sendError(nonce, e);
+                            if (stream) streams.stop(stream);
+                        } finally {
+                            delete running[nonce];
+                            if (!stream) {
+                                endCall();
+                                stopStreams();
+                            }
                         }
+                    }
+                }
+                break;
+            case 'cancel':
+                {
+                    log('received cancel message', m);
+                    const {nonce} = m;
+                    if (has(running, nonce)) {
+                        running[nonce].abort();
+                        delete running[nonce];
+                    }
                 }
                 break;
             case 'publish':
                 {
                     log('Received Published Function', m);
-                    const {name, returns} = m;
-                    if (remoteFunctions.hasOwnProperty(name)) {
+                    const {name, args, returns, oneway} = m;
+                    const fd: RemoteFunctionDefinition = {
+                        name,
+                        args: isArray(args) ? args : [],
+                        returns,
+                        ...(oneway ? {oneway} : {}),
+                    };
+                    const previous = remotePublished[name];
+                    const pattern = invalidPattern([fd.args, returns]);
+                    if (pattern !== undefined) {
+                        const message = `${name} is published with an invalid pattern /${pattern}/`;
+                        log(message);
+                        if (has(expected, name)) {
+                            const e = new IncompatibleFunctionError(message);
+                            expected[name].map((w) => w.fail(e));
+                            delete expected[name];
+                        }
+                    } else if (
+                        previous &&
+                        JSON.stringify(previous) === JSON.stringify(fd)
+                    ) {
                         log(`published function ${name} already exists`);
                         // send({type: 'error', nonce: -1, message: `Double Published Function ${name}`})
                     } else {
-                        remoteFunctions[name] = async (...callArgs) => {
-                            const nonce = counter++;
-
+                        // published again with other schemas, which the
+                        // calls that follow use
+                        if (previous) {
+                            log(
+                                `published function ${name} changed`,
+                                checkContract(previous, fd, {
+                                    contractDefinitions: remoteDefinitions,
+                                    publishedDefinitions: remoteDefinitions,
+                                })
+                            );
+                        }
+                        remotePublished[name] = fd;
+                        validatorFor(returns, remoteSchemas);
+                        const notifyFunction = (a: any[], call?: CallInfo) =>
                             send({
-                                type: 'call',
-                                nonce,
+                                type: 'notify',
                                 name,
-                                args: callArgs,
+                                args: a,
+                                ...metadataOf(call),
                             });
+                        remoteNotifications[name] = notifyFunction;
+                        remoteFunctions[name] = oneway
+                            ? async (a, _, call) => notifyFunction(a, call)
+                            : callFunction(name, fd.args, returns);
 
-                            return await new Promise((resolve, fail) => {
-                                inFlight[nonce] = {
-                                    name,
-                                    returns,
-                                    resolve,
-                                    fail,
+                        const issues = has(contracts, name)
+                            ? checkContract(contracts[name], fd, {
+                                  contractDefinitions:
+                                      params.contracts!.definitions ||
+                                      definitions,
+                                  publishedDefinitions: remoteDefinitions,
+                              })
+                            : [];
+                        if (issues.length > 0) {
+                            const message = `${name} does not match its contract: ${issues
+                                .map((i) => i.message)
+                                .join(', ')}`;
+                            try {
+                                onMismatch(message, issues);
+                            } catch (e) {
+                                log('Exception in onMismatch', e);
+                            }
+                            if (mismatch === 'reject') {
+                                const incompatible = () => {
+                                    throw new IncompatibleFunctionError(
+                                        message,
+                                        {data: {issues}}
+                                    );
                                 };
-                            });
-                        };
-
-                        if (name in expected) {
+                                remoteFunctions[name] = async () =>
+                                    incompatible();
+                                remoteNotifications[name] = incompatible;
+                            }
+                        }
+
+                        if (has(expected, name)) {
                             log(
                                 `expected published function ${name} for ${expected[name].length} call(s)`
                             );
-                            expected[name].map((resolve) => resolve());
+                            expected[name].map((w) => w.resolve());
+                            delete expected[name];
                         }
+                        callHandlers(publishHandlers, 'publish', name);
+                    }
+                }
+                break;
+            case 'unpublish':
+                log('received unpublish message', m);
+                delete remoteFunctions[m.name];
+                delete remoteNotifications[m.name];
+                delete remotePublished[m.name];
+                break;
+            case 'close':
+                log('received close message', m);
+                shutdown(m.reason);
+                break;
+            case 'define':
+                {
+                    log('received definition', m);
+                    const {name, definition} = m;
+                    if (has(remoteDefinitions, name)) {
+                        log(`definition ${name} already exists`);
+                    } else if (invalidPattern(definition) !== undefined) {
+                        log(`definition ${name} has an invalid pattern`);
+                    } else {
+                        remoteDefinitions[name] = definition;
                     }
                 }
                 break;
+            case 'notify':
+                {
+                    const {name, args} = m;
+                    if (!has(published, name)) {
+                        log('notification for unpublished function', m);
+                        break;
+                    }
+                    const {fn, args: argstype, authorize} = published[name];
+                    const issues = validateIncoming(
+                        args,
+                        argstype,
+                        'args',
+                        schemas
+                    );
+                    if (issues.length > 0) {
+                        log(
+                            'Invalid Notification Arguments',
+                            name,
+                            describeIssues(issues)
+                        );
+                        break;
+                    }
+                    let endCall = () => {};
+                    try {
+                        const call: CallInfo = {
+                            name,
+                            args,
+                            oneway: true,
+                            signal: closing.signal,
+                            metadata: isRecord(m.metadata) ? m.metadata : {},
+                            resultMetadata: {},
+                        };
+                        const context: CallContext = {
+                            name: name as AnyFunctionName,
+                            signal: closing.signal,
+                            metadata: call.metadata,
+                            resultMetadata: call.resultMetadata,
+                            peer: peer!,
+                        };
+                        if (
+                            authorize &&
+                            !(await authorize.apply(context, call.args))
+                        ) {
+                            log('Unauthorized Notification', name);
+                            break;
+                        }
+                        if (limiters[name] || channelLimiter) {
+                            endCall = await admit(
+                                name,
+                                limiters[name],
+                                closing.signal
+                            );
+                        }
+                        await runMiddleware(incoming, call, async () =>
+                            fn.apply(context, call.args)
+                        );
+                    } catch (e) {
+                        log('Exception in notified function', name, e);
+                    } finally {
+                        endCall();
+                    }
+                }
+                break;
+            case 'subscribe':
+                log('received subscribe message', m);
+                if (invalidPattern(m.payload) !== undefined) {
+                    log(`subscription to ${m.topic} has an invalid pattern`);
+                    break;
+                }
+                subscribed[m.topic] = m.payload;
+                validatorFor(m.payload, remoteSchemas);
+                break;
+            case 'unsubscribe':
+                log('received unsubscribe message', m);
+                delete subscribed[m.topic];
+                break;
+            case 'event':
+                {
+                    const {topic, payload} = m;
+                    if (!has(subscriptions, topic)) {
+                        log('event for unhandled topic', m);
+                        break;
+                    }
+                    const subscription = subscriptions[topic];
+                    const issues = validateIncoming(
+                        payload,
+                        subscription.payload,
+                        'payload',
+                        schemas
+                    );
+                    if (issues.length > 0) {
+                        log(
+                            'Invalid Event Payload',
+                            topic,
+                            describeIssues(issues)
+                        );
+                        break;
+                    }
+                    for (const handler of subscription.handlers) {
+                        try {
+                            handler(payload);
+                        } catch (e) {
+                            log('Exception in event handler', topic, e);
+                        }
+                    }
+                }
+                break;
+            case 'release':
+                log('received release message', m);
+                delete callbacks[m.callback];
+                break;
             case 'expect':
                 {
                     log('received expect message', m.name);
                     const {name} = m;
-                    if (name in published) {
-                        sendFunction(published[name]);
+                    if (has(published, name)) {
+                        sendFunction(published[name], true);
                     } else {
                         log('expected function not yet published: ', name);
                     }
@@ -261,26 +1907,61 @@ export function createChannel(params: ChannelParams): Channel {
             case 'error':
                 {
                     log('received error message', m);
-                    const {nonce, message} = m;
-                    if (inFlight.hasOwnProperty(nonce)) {
-                        inFlight[nonce].fail(message);
-                        delete inFlight[nonce];
+                    const {nonce} = m;
+                    if (has(inFlight, nonce)) {
+                        inFlight[nonce].fail(rebuildError(m, errors));
+                        forget(nonce);
                     } else {
                         log('Error Message', m);
                     }
                 }
                 break;
+            case 'item':
+            case 'end':
+            case 'stream-error':
+            case 'credit':
+            case 'stop':
+                streams.receive(m);
+                break;
             case 'result':
                 {
-                    const {nonce, value} = m;
-                    if (inFlight.hasOwnProperty(nonce)) {
+                    const {nonce} = m;
+                    if (has(inFlight, nonce)) {
                         const rpc = inFlight[nonce];
-                        if (!validate(value, rpc.returns))
+                        if (rpc.call && isRecord(m.metadata)) {
+                            Object.assign(rpc.call.resultMetadata, m.metadata);
+                        }
+                        const value =
+                            isStream(rpc.returns) &&
+                            isStreamPlaceholder(m.value)
+                                ? consumeStream(
+                                      m.value,
+                                      rpc.returns,
+                                      'result',
+                                      rpc.schemas,
+                                      InvalidReturnError,
+                                      `invalid stream item from rpc ${rpc.name}: `,
+                                      rpc.signal
+                                  )
+                                : m.value;
+                        const issues = validateIncoming(
+                            value,
+                            rpc.returns,
+                            'result',
+                            rpc.schemas
+                        );
+                        if (issues.length > 0) {
+                            log('Invalid Return Value', rpc.name, issues);
                             rpc.fail(
-                                `invalid return value from rpc ${rpc.name}`
+                                new InvalidReturnError(
+                                    `invalid return value from rpc ${
+                                        rpc.name
+                                    }: ${describeIssues(issues)}`,
+                                    {data: {issues}}
+                                )
                             );
-                        else rpc.resolve(value);
-                        delete inFlight[nonce];
+                        } else rpc.resolve(value);
+                        forget(nonce);
                     } else {
                         log('Result for invalid nonce', m);
                     }
@@ -289,60 +1970,332 @@ export function createChannel(params: ChannelParams): Channel {
         }
     });
 
-    registerClose(() => {
-        open = false;
+    // forgets the state shared with the other side
+    // calls in flight fail, except the ones kept to be sent again
+    const disconnect = (keep: (rpc: InFlightRPC) => boolean): void => {
+        queue = null;
+        clearTimeout(batchTimer);
 
         for (const k of Object.keys(inFlight) as any) {
-            inFlight[k].fail('Connection Closed');
-            delete inFlight[k];
+            if (!keep(inFlight[k])) {
+                inFlight[k].fail(
+                    new ConnectionClosedError('Connection Closed')
+                );
+                forget(k);
+            }
+        }
+
+        for (const k of Object.keys(running) as any) {
+            running[k].abort();
+            delete running[k];
         }
 
+        streams.close();
+
+        for (const k of Object.keys(callbacks) as any) {
+            delete callbacks[k];
+        }
+
+        for (const k of Object.keys(subscribed)) {
+            delete subscribed[k];
+        }
+    };
+
+    // the other side may have changed while the connection was lost
+    // so its functions and definitions are expected again
+    const disconnected = (): void => {
+        if (!open) return;
+        log('disconnected');
+        connected = false;
+        peer = undefined;
+        pending.length = 0;
+        disconnect((rpc) => rpc.resend !== undefined);
+
         for (const k of Object.keys(remoteFunctions)) {
-            remoteFunctions[k] = async () => {
-                log('Calling function after connection closed', k);
-            };
+            delete remoteFunctions[k];
+            delete remoteNotifications[k];
+            delete remotePublished[k];
         }
-    });
+        for (const k of Object.keys(remoteDefinitions)) {
+            delete remoteDefinitions[k];
+        }
+        sentDefinitions.clear();
+    };
+
+    const reconnected = (): void => {
+        if (!open) return;
+        log('connected');
+        connected = true;
+        sendHello(false);
+
+        for (const name of Object.keys(published)) {
+            sendFunction(published[name]);
+        }
+        for (const topic of Object.keys(subscriptions)) {
+            const {payload} = subscriptions[topic];
+            sendDefinitions([payload], false);
+            send({type: 'subscribe', topic, payload});
+        }
+        for (const name of Object.keys(expected)) {
+            send({type: 'expect', name: name as AnyFunctionName});
+        }
+        for (const k of Object.keys(inFlight) as any) {
+            inFlight[k].resend!();
+        }
+        callHandlers(openHandlers, 'open');
+    };
+
+    if (params.registerReconnect) {
+        params.registerReconnect(disconnected, reconnected);
+    }
+
+    // calls made after the channel closes reject with a ConnectionClosedError
+    const shutdown = (reason?: string): void => {
+        if (!open) return;
+        open = false;
+        closeReason = reason;
+        disconnect(() => false);
+        closing.abort();
 
+        for (const name of Object.keys(expected)) {
+            for (const w of expected[name]) {
+                w.fail(
+                    new ConnectionClosedError(
+                        `channel closed before ${name} was published`
+                    )
+                );
+            }
+            delete expected[name];
+        }
+
+        rejectPeer(new ConnectionClosedError(reason || 'Connection Closed'));
+        resolveClosed(reason);
+        callHandlers(closeHandlers, 'close', reason);
+    };
+
+    registerClose(() => shutdown());
+
+    const close = (reason?: string): void => {
+        if (!open) return;
+        if (connected) {
+            flush();
+            params.send({
+                type: 'close',
+                ...(reason === undefined ? {} : {reason}),
+            });
+        }
+        shutdown(reason);
+    };
+
+    // exceptions in handlers are logged
+    const callHandlers = <A extends any[]>(
+        handlers: ((...args: A) => void)[],
+        event: string,
+        ...args: A
+    ): void => {
+        for (const handler of [...handlers]) {
+            try {
+                handler(...args);
+            } catch (e) {
+                log(`Exception in ${event} handler`, e);
+            }
+        }
+    };
+
+    // handlers for an event which has happened are called immediately
+    const addHandler = <T>(
+        handlers: T[],
+        handler: T,
+        happened: boolean,
+        call: () => void
+    ): (() => void) => {
+        handlers.push(handler);
+        if (happened) call();
+        return () => {
+            const i = handlers.indexOf(handler);
+            if (i >= 0) handlers.splice(i, 1);
+        };
+    };
+
+    if (connected) sendHello(false);
     if (publish) for (const rfd of publish) publishFunction(rfd);
 
-    return new Proxy(
-        {},
-        {
-            get(_t: any, prop: string, _r: any) {
-                if (prop === 'publish') {
-                    return publishFunction;
-                } else if (!(prop in remoteFunctions)) {
-                    log(
-                        prop,
-                        'not in remote functions',
-                        ...Object.keys(remoteFunctions)
-                    );
+    const batch = async <T>(fn: () => T | Promise<T>): Promise<T> => {
+        let result: T | Promise<T>;
+        scopes++;
+        try {
+            result = fn();
+        } finally {
+            scopes--;
+            if (scopes === 0) flush();
+        }
+        return await result;
+    };
+
+    const remote: RemoteCatalog = {
+        list: () => Object.keys(remotePublished),
+        describe(name) {
+            if (!has(remotePublished, name)) return undefined;
+            const rfd = remotePublished[name];
+            const used: Definitions = dictionary();
+            for (const ref of references(
+                [rfd.args, rfd.returns],
+                remoteDefinitions
+            )) {
+                if (has(remoteDefinitions, ref)) {
+                    used[ref] = remoteDefinitions[ref];
+                }
+            }
+            return {...rfd, definitions: used};
+        },
+        async ready(...names) {
+            const {timeout} = params;
+            const limits = {
+                deadline:
+                    timeout === undefined ? undefined : Date.now() + timeout,
+            };
+            await Promise.all(
+                names
+                    .filter((name) => !has(remotePublished, name))
+                    .map((name) => expectFunction(name, limits))
+            );
+        },
+    };
+
+    // notifying proxies send notifications instead of calls
+    const remoteProxy = (
+        options: CallOptions,
+        root: boolean,
+        notifying = false
+    ): any =>
+        new Proxy(
+            {},
+            {
+                get(_t: any, prop: string, _r: any) {
+                    if (root && prop === 'publish') {
+                        return publishFunction;
+                    } else if (root && prop === 'withOptions') {
+                        return (o: CallOptions) =>
+                            remoteProxy({...options, ...o}, false);
+                    } else if (root && prop === 'notify') {
+                        return remoteProxy(options, false, true);
+                    } else if (root && prop === 'on') {
+                        return subscribe;
+                    } else if (root && prop === 'emit') {
+                        return emit;
+                    } else if (root && prop === 'batch') {
+                        return batch;
+                    } else if (root && prop === 'unpublish') {
+                        return unpublishFunction;
+                    } else if (root && prop === 'close') {
+                        return close;
+                    } else if (root && prop === 'closed') {
+                        return closed;
+                    } else if (root && prop === 'peer') {
+                        return peerInfo;
+                    } else if (root && prop === 'remote') {
+                        return remote;
+                    } else if (root && prop === 'onOpen') {
+                        return (handler: () => void) =>
+                            addHandler(
+                                openHandlers,
+                                handler,
+                                open && connected,
+                                handler
+                            );
+                    } else if (root && prop === 'onClose') {
+                        return (handler: (reason?: string) => void) =>
+                            addHandler(closeHandlers, handler, !open, () =>
+                                handler(closeReason)
+                            );
+                    } else if (root && prop === 'onPublish') {
+                        return (handler: (name: string) => void) =>
+                            addHandler(
+                                publishHandlers,
+                                handler,
+                                false,
+                                () => {}
+                            );
+                    } else if (prop === 'then') {
+                        // not thenable, so channels and the proxies from
+                        // withOptions and notify can be awaited and returned
+                        // by async functions
+                        return undefined;
+                    }
+
                     return async (...args: any[]) => {
-                        await new Promise((resolve) => {
-                            if (prop in expected) {
-                                expected[prop].push(resolve);
+                        const {
+                            timeout = params.timeout,
+                            signal,
+                            idempotent,
+                        } = options;
+                        const limits = {
+                            deadline:
+                                timeout === undefined
+                                    ? undefined
+                                    : Date.now() + timeout,
+                            signal,
+                            idempotent,
+                        };
+
+                        const call: CallInfo = {
+                            name: prop,
+                            args,
+                            oneway: notifying,
+                            signal,
+                            metadata: {...params.metadata, ...options.metadata},
+                            resultMetadata: {},
+                        };
+
+                        return await runMiddleware(outgoing, call, async () => {
+                            if (!open) {
+                                throw new ConnectionClosedError(
+                                    `call to ${prop} after the channel closed`
+                                );
+                            } else if (!has(remoteFunctions, prop)) {
+                                log(
+                                    prop,
+                                    'not in remote functions',
+                                    ...Object.keys(remoteFunctions)
+                                );
+                                await expectFunction(prop, limits);
+                            }
+
+                            if (notifying) {
+                                remoteNotifications[prop](call.args, call);
                             } else {
-                                expected[prop] = [resolve];
+                                return await remoteFunctions[prop](
+                                    call.args,
+                                    limits,
+                                    call
+                                );
                             }
                         });
-
-                        send({type: 'expect', name: prop as AnyFunctionName});
-
-                        return await remoteFunctions[prop](...args);
                     };
-                } else {
-                    return remoteFunctions[prop];
-                }
-            },
-        }
-    );
+                },
+            }
+        );
+
+    return remoteProxy({}, true);
 }
 
-export async function createWebSocketChannel(
+// the ChannelParams which do not depend on the transport
+export type ChannelOptions = Omit<
+    ChannelParams,
+    | 'send'
+    | 'registerReceive'
+    | 'registerClose'
+    | 'publish'
+    | 'registerReconnect'
+>;
+
+// waits for the socket to open
+// the channel closes when the socket closes, see webSocketTransport
+export async function createWebSocketChannel<Remote = UntypedRemote>(
     ws: WebSocket,
-    publish: LocalFunctionDefinition[]
-): Promise<Channel> {
+    publish: LocalFunctionDefinition[],
+    options: ChannelOptions & {binary?: boolean} = {}
+): Promise<Channel<Remote>> {
     if (ws.readyState !== 1) {
         if (ws.readyState !== 0) {
             throw new Error('web socket already closed');
@@ -354,82 +2307,959 @@ export async function createWebSocketChannel(
         }
     }
 
-    return createChannel({
-        send: (o: any) => ws.send(JSON.stringify(o)),
-        registerReceive(receive) {
-            ws.addEventListener('message', (o: any) => receive(JSON.parse(o)));
-        },
-        registerClose(close) {
-            ws.addEventListener('close', close);
-        },
+    const {binary, ...channelOptions} = options;
+    return createChannel<Remote>({
+        ...webSocketTransport(ws, binary, options.messageLimits?.size),
         publish,
+        ...channelOptions,
     });
 }
 
-function validate(value: any, type: Sendable): boolean {
+// a channel which survives lost connections, see reconnectingWebSocketTransport
+export type ReconnectingWebSocketChannel<Remote = UntypedRemote> = {
+    channel: Channel<Remote>;
+    close: (reason?: string) => void; // closes the channel and the socket
+    state: () => ConnectionState;
+};
+
+export function createReconnectingWebSocketChannel<Remote = UntypedRemote>(
+    connect: () => WebSocket,
+    publish: LocalFunctionDefinition[],
+    options: ChannelOptions & ReconnectOptions = {}
+): ReconnectingWebSocketChannel<Remote> {
+    const {
+        binary,
+        maxSize = options.messageLimits?.size,
+        backoff,
+        retries,
+        onStateChange,
+        ...channelOptions
+    } = options;
+    const transport = reconnectingWebSocketTransport(connect, {
+        binary,
+        maxSize,
+        backoff,
+        retries,
+        onStateChange,
+    });
+    const channel = createChannel<Remote>({
+        ...transport,
+        publish,
+        ...channelOptions,
+    });
+    const close = (reason?: string) => {
+        channel.close(reason);
+        transport.close();
+    };
+    return {channel, close, state: transport.state};
+}
+
+export type ValidationIssue = {
+    path: string; // e.g. args[1].items[3].age
+    expected?: Sendable; // absent for unexpected elements and properties
+    actual: string; // the kind of the value, or 'missing'
+};
+
+// returns the ways in which the value does not conform to the type
+// an empty list means the value is valid
+export function validate(
+    value: any,
+    type: Sendable,
+    path: string = 'value',
+    schemas: Schemas = {}
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const {definitions = {}, codecs = []} = schemas;
+    check(value, type, path, issues, {definitions, codecs, active: new Map()});
+    return issues;
+}
+
+// what references to definitions and codecs refer to
+export type Schemas = {
+    definitions?: Definitions;
+    codecs?: Codec[];
+};
+
+type CheckContext = {
+    definitions: Definitions;
+    codecs: Codec[];
+    active: Map<any, Map<string, string>>; // references being checked, by value
+};
+
+function check(
+    value: any,
+    type: Sendable,
+    path: string,
+    issues: ValidationIssue[],
+    ctx: CheckContext
+): void {
+    const fail = () => issues.push({path, expected: type, actual: kind(value)});
+
     if (isNumber(type)) {
         // basic type
         switch (type) {
             case 0:
-                return value === null;
+                if (value !== null) fail();
+                break;
             case 1:
-                return isString(value);
+                if (!isString(value)) fail();
+                break;
             case 2:
-                return isNumber(value);
+                if (!isNumber(value)) fail();
+                break;
             case 3:
-                return isBool(value);
+                if (!isBool(value)) fail();
+                break;
             default:
-                return false;
+                fail();
         }
     } else if (isArray(type)) {
-        // fixed structure array
+        // fixed structure array, its optional elements after the last
+        // required one may be left out
         if (isArray(value)) {
-            return (
-                type.length === value.length &&
-                value
-                    .map((v, i) => [v, type[i]])
-                    .every(([v, t]) => validate(v, t))
-            );
+            const length = Math.max(type.length, value.length);
+            const required = requiredLength(type);
+            for (let i = 0; i < length; i++) {
+                const p = `${path}[${i}]`;
+                if (i >= type.length) {
+                    issues.push({path: p, actual: kind(value[i])});
+                } else if (i >= value.length) {
+                    if (i < required) {
+                        issues.push({
+                            path: p,
+                            expected: type[i],
+                            actual: 'missing',
+                        });
+                    }
+                } else {
+                    check(value[i], type[i], p, issues, ctx);
+                }
+            }
         } else {
-            return false;
+            fail();
         }
     } else if (isObject(type)) {
-        if (type.hasOwnProperty('$c')) {
-            if (isArray(value) && type.$c === 4) {
-                // variable structure array
-                return value.every((v) => validate(v, type.$v));
-            } else if (type.$c === 5 && isObject(value)) {
-                // variable structure object
-                return (
-                    Object.keys(value).every((k) => validate(k, type.$k)) &&
-                    Object.values(value).every((v) => validate(v, type.$v))
-                );
-            } else if (type.$c === 6) {
-                // typed union
-                return Object.values(type.$t).some((t) => validate(value, t));
-            } else {
-                return false;
+        if (has(type, '$c')) {
+            const t = type as ContainerSendable;
+            switch (t.$c) {
+                case 4:
+                    // variable structure array
+                    if (isArray(value)) {
+                        value.forEach((v, i) =>
+                            check(v, t.$v, `${path}[${i}]`, issues, ctx)
+                        );
+                    } else fail();
+                    break;
+                case 5:
+                    // variable structure object
+                    if (isRecord(value)) {
+                        for (const k of Object.keys(value)) {
+                            const p = path + property(k);
+                            if (!conforms(keyValue(k, t.$k), t.$k, p, ctx)) {
+                                issues.push({
+                                    path: p,
+                                    expected: t.$k,
+                                    actual: 'key',
+                                });
+                            }
+                            check((value as any)[k], t.$v, p, issues, ctx);
+                        }
+                    } else fail();
+                    break;
+                case 6:
+                    // typed union
+                    if (!t.$t.some((u) => conforms(value, u, path, ctx))) {
+                        fail();
+                    }
+                    break;
+                case 7:
+                    // literal
+                    if (value !== t.$l) fail();
+                    break;
+                case 8:
+                    // enum
+                    if (!t.$e.includes(value)) fail();
+                    break;
+                case 9:
+                    // constrained number
+                    if (
+                        !isNumber(value) ||
+                        (t.$i && !Number.isInteger(value)) ||
+                        (t.$min !== undefined && value < t.$min) ||
+                        (t.$max !== undefined && value > t.$max)
+                    ) {
+                        fail();
+                    }
+                    break;
+                case 10:
+                    // constrained string
+                    if (
+                        !isString(value) ||
+                        (t.$min !== undefined && value.length < t.$min) ||
+                        (t.$max !== undefined && value.length > t.$max) ||
+                        (t.$p !== undefined && !patternOf(t)?.test(value))
+                    ) {
+                        fail();
+                    }
+                    break;
+                case 11:
+                    // optional, when it is present
+                    if (value !== undefined)
+                        check(value, t.$v, path, issues, ctx);
+                    break;
+                case 12:
+                    // open object
+                    if (isRecord(value)) {
+                        checkProperties(value, t.$p, true, path, issues, ctx);
+                    } else fail();
+                    break;
+                case 13: {
+                    // reference
+                    // a value is only checked once for each reference, when
+                    // it is reached again at another path it is part of a
+                    // cycle and conforms, at the same path the definition
+                    // refers to itself without checking anything and fails
+                    const name = t.$r;
+                    const active = ctx.active.get(value) || new Map();
+                    if (!has(ctx.definitions, name)) {
+                        fail();
+                    } else if (active.has(name)) {
+                        if (active.get(name) === path) fail();
+                    } else {
+                        active.set(name, path);
+                        ctx.active.set(value, active);
+                        check(value, ctx.definitions[name], path, issues, ctx);
+                        active.delete(name);
+                    }
+                    break;
+                }
+                case 14:
+                    // instance of a builtin codec
+                    if (!isInstance(value, t.$i)) fail();
+                    break;
+                case 15:
+                    // Map
+                    if (value instanceof Map) {
+                        Array.from(value.entries()).forEach(([k, v], i) => {
+                            const p = `${path}.entries[${i}]`;
+                            check(k, t.$k, `${p}[0]`, issues, ctx);
+                            check(v, t.$v, `${p}[1]`, issues, ctx);
+                        });
+                    } else fail();
+                    break;
+                case 16:
+                    // Set
+                    if (value instanceof Set) {
+                        Array.from(value.values()).forEach((v, i) =>
+                            check(v, t.$v, `${path}.values[${i}]`, issues, ctx)
+                        );
+                    } else fail();
+                    break;
+                case 17: {
+                    // value encoded by a codec
+                    const codec = ctx.codecs.find((c) => c.name === t.$n);
+                    if (!codec || !codec.is(value)) fail();
+                    break;
+                }
+                case 18:
+                    // stream, its items are checked as they arrive
+                    if (!isAsyncIterable(value)) fail();
+                    break;
+                case 19:
+                    // callback, its args and returns are checked when it is called
+                    if (!isFunction(value)) fail();
+                    break;
+                default:
+                    fail();
             }
-        } else {
+        } else if (isRecord(value)) {
             // fixed structure object
-            const vres = value as {[key: string]: any};
-            const tres = type as {[key: string]: Sendable};
-            // must have same keys
-            // keys must have the right types
-            return (
-                Object.keys(type).every((k) => value.hasOwnProperty(k)) &&
-                Object.keys(value).every((k) => type.hasOwnProperty(k)) &&
-                Object.keys(value).every((k) => validate(vres[k], tres[k]))
+            checkProperties(
+                value,
+                type as {[key: string]: Sendable},
+                false,
+                path,
+                issues,
+                ctx
             );
+        } else {
+            fail();
         }
     } else {
-        // log('could not resolve type', type, value);
+        // could not resolve type
+        fail();
+    }
+}
+
+// the properties of a fixed or open structure object
+// must have the same keys, except for optional properties
+// and other properties of open objects
+// keys must have the right types
+function checkProperties(
+    value: {[key: string]: any},
+    properties: {[key: string]: Sendable},
+    open: boolean,
+    path: string,
+    issues: ValidationIssue[],
+    ctx: CheckContext
+): void {
+    for (const k of Object.keys(properties)) {
+        const p = path + property(k);
+        if (has(value, k)) {
+            check(value[k], properties[k], p, issues, ctx);
+        } else if (!isOptional(properties[k])) {
+            issues.push({path: p, expected: properties[k], actual: 'missing'});
+        }
+    }
+    if (!open) {
+        for (const k of Object.keys(value)) {
+            if (!has(properties, k)) {
+                issues.push({path: path + property(k), actual: kind(value[k])});
+            }
+        }
+    }
+}
+
+// the names of the definitions the types refer to, directly or indirectly
+function references(
+    type: Sendable,
+    definitions: Definitions,
+    found: Set<string> = new Set()
+): Set<string> {
+    if (isArray(type)) {
+        type.forEach((t) => references(t, definitions, found));
+    } else if (isRecord(type)) {
+        if (has(type, '$c')) {
+            const t = type as ContainerSendable;
+            switch (t.$c) {
+                case 4:
+                case 11:
+                case 16:
+                case 18:
+                    references(t.$v, definitions, found);
+                    break;
+                case 5:
+                case 15:
+                    references([t.$k, t.$v], definitions, found);
+                    break;
+                case 6:
+                    references(t.$t, definitions, found);
+                    break;
+                case 19:
+                    references([...t.$a, t.$r], definitions, found);
+                    break;
+                case 12:
+                    references(t.$p, definitions, found);
+                    break;
+                case 13:
+                    if (!found.has(t.$r)) {
+                        found.add(t.$r);
+                        if (has(definitions, t.$r)) {
+                            references(definitions[t.$r], definitions, found);
+                        }
+                    }
+                    break;
+            }
+        } else {
+            Object.values(type).forEach((t) =>
+                references(t, definitions, found)
+            );
+        }
+    }
+    return found;
+}
+
+// the compiled patterns of string types, null when the pattern is not a
+// valid regular expression, so no value conforms to the type
+const patterns = new WeakMap<StringSendable, RegExp | null>();
+function patternOf(t: StringSendable): RegExp | null {
+    let pattern = patterns.get(t);
+    if (pattern === undefined) {
+        try {
+            pattern = new RegExp(t.$p!);
+        } catch (e) {
+            pattern = null;
+        }
+        patterns.set(t, pattern);
+    }
+    return pattern;
+}
+
+// the first pattern of the type which is not a valid regular expression
+// types of the other side are checked when they arrive
+function invalidPattern(type: Sendable): string | undefined {
+    if (isRecord(type) && (type as ContainerSendable).$c === 10) {
+        const t = type as StringSendable;
+        return t.$p !== undefined && !patternOf(t) ? t.$p : undefined;
+    } else if (isArray(type) || isRecord(type)) {
+        for (const t of Object.values(type)) {
+            const pattern = invalidPattern(t);
+            if (pattern !== undefined) return pattern;
+        }
+    }
+    return undefined;
+}
+
+// whether the value conforms to the type, without reporting issues
+function conforms(
+    value: any,
+    type: Sendable,
+    path: string,
+    ctx: CheckContext
+): boolean {
+    const issues: ValidationIssue[] = [];
+    check(value, type, path, issues, ctx);
+    return issues.length === 0;
+}
+
+// the keys of objects are strings, the keys of number keyed objects are
+// checked as the numbers they are the strings of, e.g. '1' but not '01'
+const keyValue = (k: string, keyType: Sendable): string | number =>
+    keyType === 2 && String(Number(k)) === k ? Number(k) : k;
+
+// validates values of one type, with the same issues as validate
+export type Validator = (value: any, path?: string) => ValidationIssue[];
+
+// compiles the type into a function which tells whether values conform,
+// without walking the type for each value, so valid values are checked
+// much faster than by validate
+// values which the compiled function rejects are checked again by validate,
+// to report their issues
+// references are compiled when they are first used, and definitions which
+// are missing then are looked up again the next time
+export function compileValidator(
+    type: Sendable,
+    schemas: Schemas = {}
+): Validator {
+    const valid = compileType(type, schemas, {});
+    return (value, path = 'value') =>
+        valid(value) ? [] : validate(value, type, path, schemas);
+}
+
+// whether a value conforms to a type
+// it may also return false for valid values which it can not tell apart,
+// e.g. a value which refers to itself, so validate has the last word
+type Conforms = (value: any) => boolean;
+
+function compileType(
+    type: Sendable,
+    schemas: Schemas,
+    refs: {[name: string]: Conforms}
+): Conforms {
+    const {definitions = {}, codecs = []} = schemas;
+    const compile = (s: Sendable) => compileType(s, schemas, refs);
+
+    if (isNumber(type)) {
+        switch (type) {
+            case 0:
+                return (v) => v === null;
+            case 1:
+                return isString;
+            case 2:
+                return isNumber;
+            case 3:
+                return isBool;
+        }
+        return () => false;
+    } else if (isArray(type)) {
+        const elements = type.map(compile);
+        const n = elements.length;
+        const required = requiredLength(type);
+        return (v) => {
+            if (!isArray(v) || v.length < required || v.length > n) {
+                return false;
+            }
+            for (let i = 0; i < v.length; i++) {
+                if (!elements[i](v[i])) return false;
+            }
+            return true;
+        };
+    } else if (!isObject(type)) {
+        return () => false;
+    } else if (!has(type, '$c')) {
+        return compileProperties(type as {[key: string]: Sendable}, false);
+    }
+
+    const t = type as ContainerSendable;
+    switch (t.$c) {
+        case 4: {
+            const item = compile(t.$v);
+            return (v) => {
+                if (!isArray(v)) return false;
+                for (const x of v) if (!item(x)) return false;
+                return true;
+            };
+        }
+        case 5: {
+            const key = compile(t.$k);
+            const item = compile(t.$v);
+            return (v) => {
+                if (!isRecord(v)) return false;
+                for (const k of Object.keys(v)) {
+                    if (!key(keyValue(k, t.$k)) || !item((v as any)[k])) {
+                        return false;
+                    }
+                }
+                return true;
+            };
+        }
+        case 6: {
+            const members = t.$t.map(compile);
+            return (v) => members.some((m) => m(v));
+        }
+        case 7: {
+            const l = t.$l;
+            return (v) => v === l;
+        }
+        case 8: {
+            const e = t.$e;
+            return (v) => e.includes(v);
+        }
+        case 9: {
+            const {$i, $min = -Infinity, $max = Infinity} = t;
+            return (v) =>
+                isNumber(v) &&
+                (!$i || Number.isInteger(v)) &&
+                v >= $min &&
+                v <= $max;
+        }
+        case 10: {
+            const {$min = 0, $max = Infinity} = t;
+            const pattern = t.$p === undefined ? undefined : patternOf(t);
+            return (v) =>
+                isString(v) &&
+                v.length >= $min &&
+                v.length <= $max &&
+                (t.$p === undefined || !!pattern?.test(v));
+        }
+        case 11: {
+            const present = compile(t.$v);
+            return (v) => v === undefined || present(v);
+        }
+        case 12:
+            return compileProperties(t.$p, true);
+        case 13: {
+            // a value which is reached again while it is checked against
+            // the same definition refers to itself, or the definition does
+            const name = t.$r;
+            const active = new Set<any>();
+            return (v) => {
+                if (!has(refs, name)) {
+                    if (!has(definitions, name)) return false;
+                    refs[name] = compile(definitions[name]);
+                }
+                if (active.has(v)) return false;
+                active.add(v);
+                try {
+                    return refs[name](v);
+                } finally {
+                    active.delete(v);
+                }
+            };
+        }
+        case 14: {
+            const i = t.$i;
+            return (v) => isInstance(v, i);
+        }
+        case 15: {
+            const key = compile(t.$k);
+            const item = compile(t.$v);
+            return (v) => {
+                if (!(v instanceof Map)) return false;
+                for (const [k, x] of v) if (!key(k) || !item(x)) return false;
+                return true;
+            };
+        }
+        case 16: {
+            const item = compile(t.$v);
+            return (v) => {
+                if (!(v instanceof Set)) return false;
+                for (const x of v) if (!item(x)) return false;
+                return true;
+            };
+        }
+        case 17: {
+            const codec = codecs.find((c) => c.name === t.$n);
+            return (v) => !!codec && codec.is(v);
+        }
+        case 18:
+            return isAsyncIterable;
+        case 19:
+            return isFunction;
+    }
+    return () => false;
+
+    function compileProperties(
+        properties: {[key: string]: Sendable},
+        open: boolean
+    ): Conforms {
+        const keys = Object.keys(properties);
+        const checks = keys.map((k) => compile(properties[k]));
+        const required = keys.map((k) => !isOptional(properties[k]));
+        return (v) => {
+            if (!isRecord(v)) return false;
+            for (let i = 0; i < keys.length; i++) {
+                if (has(v, keys[i])) {
+                    if (!checks[i]((v as any)[keys[i]])) return false;
+                } else if (required[i]) {
+                    return false;
+                }
+            }
+            if (!open) {
+                for (const k of Object.keys(v)) {
+                    if (!has(properties, k)) return false;
+                }
+            }
+            return true;
+        };
+    }
+}
+
+function isInstance(value: any, i: InstanceSendable['$i']): boolean {
+    switch (i) {
+        case 'date':
+            return value instanceof Date && !isNaN(value.getTime());
+        case 'bigint':
+            return typeof value === 'bigint';
+        case 'bytes':
+            return value instanceof Uint8Array;
+        case 'buffer':
+            return value instanceof ArrayBuffer;
+        case 'transferable':
+            return isTransferable(value);
+        case 'undefined':
+            return value === undefined;
+    }
+}
+
+const isOptional = (t: Sendable): t is OptionalSendable =>
+    isRecord(t) && (t as OptionalSendable).$c === 11;
+
+const isStream = (t: Sendable): t is StreamSendable =>
+    isRecord(t) && (t as StreamSendable).$c === 18;
+
+const isCallback = (t: Sendable): t is CallbackSendable =>
+    isRecord(t) && (t as CallbackSendable).$c === 19;
+
+// a callback is sent as a placeholder, which refers to it by id
+type CallbackPlaceholder = {$f: number};
+
+const isCallbackPlaceholder = (x: any): x is CallbackPlaceholder =>
+    isRecord(x) && isNumber((x as CallbackPlaceholder).$f);
+
+// releases persistent callbacks received from the other side, by stub
+const stubs = new WeakMap<(...args: any[]) => any, () => void>();
+
+// tells the other side that a persistent callback will not be called again
+export function releaseCallback(callback: (...args: any[]) => any): void {
+    const release = stubs.get(callback);
+    if (release) {
+        stubs.delete(callback);
+        release();
+    }
+}
+
+// replaces the parts of a value whose types match, e.g. callbacks
+// parts of unions, maps and sets are not replaced
+// values without parts to replace are returned as they are
+function substitute(
+    value: any,
+    type: Sendable,
+    match: (t: Sendable) => boolean,
+    replace: (v: any, t: any) => any,
+    definitions: Definitions = {}
+): any {
+    if (!contains(type, match, definitions)) return value;
+
+    const sub = (v: any, t: Sendable) =>
+        substitute(v, t, match, replace, definitions);
+    const subProperties = (
+        v: {[key: string]: any},
+        p: {[key: string]: Sendable}
+    ) => {
+        const replaced: {[key: string]: any} = {...v};
+        for (const k of Object.keys(p)) {
+            if (has(v, k)) replaced[k] = sub(v[k], p[k]);
+        }
+        return replaced;
+    };
+
+    if (match(type)) {
+        return replace(value, type);
+    } else if (isArray(type)) {
+        return isArray(value)
+            ? value.map((v, i) => (i < type.length ? sub(v, type[i]) : v))
+            : value;
+    } else if (!isRecord(type) || !isRecord(value)) {
+        return value;
+    } else if (has(type, '$c')) {
+        const t = type as ContainerSendable;
+        switch (t.$c) {
+            case 4:
+                return isArray(value) ? value.map((v) => sub(v, t.$v)) : value;
+            case 5: {
+                const replaced: {[key: string]: any} = {};
+                for (const [k, v] of Object.entries(value)) {
+                    replaced[k] = sub(v, t.$v);
+                }
+                return replaced;
+            }
+            case 11:
+                return sub(value, t.$v);
+            case 12:
+                return subProperties(value, t.$p);
+            case 13:
+                return has(definitions, t.$r)
+                    ? sub(value, definitions[t.$r])
+                    : value;
+            default:
+                return value;
+        }
+    } else {
+        return subProperties(value, type as {[key: string]: Sendable});
+    }
+}
+
+// whether a type has parts which match, where substitute replaces them
+function contains(
+    type: Sendable,
+    match: (t: Sendable) => boolean,
+    definitions: Definitions,
+    found: Set<string> = new Set()
+): boolean {
+    const inside = (t: Sendable) => contains(t, match, definitions, found);
+    if (match(type)) {
+        return true;
+    } else if (isArray(type)) {
+        return type.some(inside);
+    } else if (!isRecord(type)) {
         return false;
+    } else if (has(type, '$c')) {
+        const t = type as ContainerSendable;
+        switch (t.$c) {
+            case 4:
+            case 5:
+            case 11:
+                return inside(t.$v);
+            case 12:
+                return Object.values(t.$p).some(inside);
+            case 13:
+                if (found.has(t.$r) || !has(definitions, t.$r)) {
+                    return false;
+                }
+                found.add(t.$r);
+                return inside(definitions[t.$r]);
+            default:
+                return false;
+        }
+    } else {
+        return Object.values(type).some(inside);
+    }
+}
+
+// the metadata property of a message, when there is metadata
+const metadataOf = (call?: {metadata: Metadata}): {metadata?: Metadata} =>
+    call && Object.keys(call.metadata).length > 0
+        ? {metadata: call.metadata}
+        : {};
+
+// calls the middleware in order, then last
+const runMiddleware = (
+    middleware: Middleware[],
+    call: CallInfo,
+    last: () => Promise<any>
+): Promise<any> => {
+    const next = async (i: number): Promise<any> =>
+        i < middleware.length ? middleware[i](call, () => next(i + 1)) : last();
+    return next(0);
+};
+
+// a readable typescript-like signature, e.g. add(arg0: number, arg1?: number): number
+// args have no names, oneway functions return void
+export function describeFunction(
+    fd: RemoteFunctionDefinition | LocalFunctionDefinition
+): string {
+    const returns = fd.oneway ? 'void' : describeSendable(fd.returns);
+    return `${fd.name}(${describeArgs(fd.args)}): ${returns}`;
+}
+
+// the parameter list of a function with these args, optional args after the
+// last required one are marked with ?, the ones before it may be undefined
+export function describeArgs(
+    args: Sendable[],
+    options: DescribeOptions = {}
+): string {
+    const required = requiredLength(args);
+    return args
+        .map((a, i) =>
+            !isOptional(a)
+                ? `arg${i}: ${describeSendable(a, options)}`
+                : i >= required
+                ? `arg${i}?: ${describeSendable(a.$v, options)}`
+                : `arg${i}: ${describeSendable(a.$v, options)} | undefined`
+        )
+        .join(', ');
+}
+
+// how describeSendable renders types
+// typescript renders types which compile, e.g. for .d.ts files (see
+// toTypeScript): constraints which typescript can not express are left out
+// and callbacks may return promises
+export type DescribeOptions = {typescript?: boolean};
+
+// a readable typescript-like description of a Sendable
+export function describeSendable(
+    type: Sendable,
+    options: DescribeOptions = {}
+): string {
+    const {typescript = false} = options;
+    const describe = (t: Sendable) => describeSendable(t, options);
+
+    if (isNumber(type)) {
+        return ['null', 'string', 'number', 'boolean'][type] || 'unknown';
+    } else if (isArray(type)) {
+        const required = requiredLength(type);
+        return `[${type
+            .map((e, i) =>
+                !isOptional(e)
+                    ? describe(e)
+                    : i >= required
+                    ? describe(e.$v) + '?'
+                    : describe(e.$v) + ' | undefined'
+            )
+            .join(', ')}]`;
+    } else if (isObject(type)) {
+        if (has(type, '$c')) {
+            const t = type as ContainerSendable;
+            switch (t.$c) {
+                case 4: {
+                    // parenthesize descriptions containing operators
+                    const v = describe(t.$v);
+                    const operators = typescript
+                        ? [6, 8, 19]
+                        : [6, 8, 9, 10, 19];
+                    return isRecord(t.$v) &&
+                        operators.includes((t.$v as ContainerSendable).$c)
+                        ? `(${v})[]`
+                        : `${v}[]`;
+                }
+                case 5:
+                    return `{[key: ${describe(t.$k)}]: ${describe(t.$v)}}`;
+                case 6:
+                    return t.$t.map(describe).join(' | ');
+                case 7:
+                    return JSON.stringify(t.$l);
+                case 8:
+                    return t.$e.map((l) => JSON.stringify(l)).join(' | ');
+                case 9:
+                    return typescript
+                        ? 'number'
+                        : [
+                              t.$i ? 'integer' : 'number',
+                              t.$min === undefined ? '' : ` >= ${t.$min}`,
+                              t.$max === undefined ? '' : ` <= ${t.$max}`,
+                          ].join('');
+                case 10:
+                    return typescript
+                        ? 'string'
+                        : [
+                              'string',
+                              t.$min === undefined
+                                  ? ''
+                                  : ` length >= ${t.$min}`,
+                              t.$max === undefined
+                                  ? ''
+                                  : ` length <= ${t.$max}`,
+                              t.$p === undefined ? '' : ` matching /${t.$p}/`,
+                          ].join('');
+                case 11:
+                    return describe(t.$v);
+                case 12:
+                    return describeProperties(t.$p, true, options);
+                case 13:
+                    return typescript ? identifier(t.$r) : t.$r;
+                case 14:
+                    return {
+                        date: 'Date',
+                        bigint: 'bigint',
+                        bytes: 'Uint8Array',
+                        buffer: 'ArrayBuffer',
+                        transferable: 'Transferable',
+                        undefined: 'undefined',
+                    }[t.$i];
+                case 15:
+                    return `Map<${describe(t.$k)}, ${describe(t.$v)}>`;
+                case 16:
+                    return `Set<${describe(t.$v)}>`;
+                case 17:
+                    return typescript ? `unknown /* ${t.$n} codec */` : t.$n;
+                case 18:
+                    return `AsyncIterable<${describe(t.$v)}>`;
+                case 19: {
+                    const args = describeArgs(t.$a, options);
+                    const r = describe(t.$r);
+                    return typescript
+                        ? `((${args}) => ${r} | Promise<${r}>)`
+                        : `(${args}) => ${r}`;
+                }
+            }
+        }
+        return describeProperties(
+            type as {[key: string]: Sendable},
+            false,
+            options
+        );
     }
+    return 'unknown';
+}
+
+function describeProperties(
+    properties: {[key: string]: Sendable},
+    open: boolean,
+    options: DescribeOptions
+): string {
+    const described = Object.entries(properties).map(
+        ([k, t]) =>
+            propertyName(k) +
+            (isOptional(t) ? '?: ' : ': ') +
+            describeSendable(t, options)
+    );
+    const rest = options.typescript ? '[key: string]: unknown' : '...';
+    return `{${[...described, ...(open ? [rest] : [])].join('; ')}}`;
+}
+
+// a readable description of a list of validation issues
+function describeIssues(issues: ValidationIssue[]): string {
+    return issues
+        .map(({path, expected, actual}) =>
+            expected === undefined
+                ? `${path} is unexpected`
+                : `${path} should be ${describeSendable(
+                      expected
+                  )} but is ${actual}`
+        )
+        .join(', ');
+}
+
+// the kind of a value, as reported in a ValidationIssue
+// instances of classes are reported by the name of their class
+function kind(value: any): string {
+    if (value === null) return 'null';
+    if (isArray(value)) return 'array';
+    if (isObject(value) && value.constructor && value.constructor !== Object) {
+        return value.constructor.name;
+    }
+    return typeof value;
 }
 
 const isArray = Array.isArray;
-const isString = (x: any): x is string => typeof x === 'string';
-const isNumber = (x: any): x is number => typeof x === 'number';
 const isBool = (x: any): x is boolean => typeof x === 'boolean';
+const isFunction = (x: any): x is (...args: any[]) => any =>
+    typeof x === 'function';
 const isObject = (x: any): x is object => typeof x === 'object' && !isArray(x);
+const isRecord = (x: any): x is object => x !== null && isObject(x);
+
+// maps keyed by names which the other side chooses are made without a
+// prototype, and looked up with has, so names like __proto__ and
+// hasOwnProperty are plain keys
+const dictionary = <T>(): {[key: string]: T} => Object.create(null);
@@ -0,0 +1,547 @@
+// lwrpc schemas
+// converts Sendables to JSON Schema (draft 2020-12), OpenRPC documents and
+// typescript declarations, and a subset of JSON Schema to Sendables
+//
+// values which are encoded by codecs (Date, Map...) are described as they
+// are sent, by the schema of their encoded value {$lw: codec name, v}, and
+// keep the Sendable in the x-lwrpc keyword, as do streams and callbacks,
+// which JSON Schema can not describe
+
+import {
+    Definitions,
+    describeArgs,
+    describeSendable,
+    H,
+    LocalFunctionDefinition,
+    RemoteFunctionDefinition,
+    Sendable,
+} from './lwrpc';
+import {
+    has,
+    identifier,
+    isNumber,
+    isPlainObject,
+    isString,
+    propertyName,
+    requiredLength,
+    setProperty,
+} from './util';
+
+export type JSONSchema = {[keyword: string]: any};
+
+export const JSON_SCHEMA_DIALECT =
+    'https://json-schema.org/draft/2020-12/schema';
+
+// the functions a schema document describes
+// the definitions of describe results (see RemoteCatalog) are used
+// along with the definitions option
+type FunctionDefinitions = (
+    | LocalFunctionDefinition
+    | RemoteFunctionDefinition
+    | (RemoteFunctionDefinition & {definitions: Definitions})
+)[];
+
+export type OpenRPCOptions = {
+    title: string;
+    version: string;
+    description?: string;
+    definitions?: Definitions; // which the functions refer to
+};
+
+export type OpenRPCDocument = {
+    openrpc: string;
+    info: {title: string; version: string; description?: string};
+    methods: OpenRPCMethod[];
+    components?: {schemas: {[name: string]: JSONSchema}};
+};
+
+export type OpenRPCMethod = {
+    name: string;
+    paramStructure: 'by-position';
+    params: {name: string; required: boolean; schema: JSONSchema}[];
+    result?: {name: string; schema: JSONSchema}; // absent for oneway functions
+};
+
+export type DeclarationOptions = {
+    name?: string; // of the interface, default Remote
+    definitions?: Definitions; // which the functions refer to
+};
+
+// the schema of the values described by type
+// references become $refs to #/$defs, with the definitions they use
+export function toJSONSchema(
+    type: Sendable,
+    definitions: Definitions = {}
+): JSONSchema {
+    const used = referenced([type], definitions);
+    return {
+        $schema: JSON_SCHEMA_DIALECT,
+        ...convert(type, '#/$defs/'),
+        ...(used.length === 0
+            ? {}
+            : {$defs: convertDefinitions(used, definitions, '#/$defs/')}),
+    };
+}
+
+// an OpenRPC document, which describes the args of the functions by position
+export function toOpenRPC(
+    functions: FunctionDefinitions,
+    options: OpenRPCOptions
+): OpenRPCDocument {
+    const {title, version, description} = options;
+    const definitions = definitionsOf(functions, options.definitions);
+    const used = referenced(
+        functions.flatMap((f) => [...f.args, f.returns]),
+        definitions
+    );
+    const prefix = '#/components/schemas/';
+
+    return {
+        openrpc: '1.3.2',
+        info: {title, version, ...(description ? {description} : {})},
+        methods: functions.map((f) => ({
+            name: f.name,
+            paramStructure: 'by-position',
+            params: f.args.map((a, i) => ({
+                name: `arg${i}`,
+                required: i < requiredLength(f.args),
+                schema: convert(isOptional(a) ? a.$v : a, prefix),
+            })),
+            ...(f.oneway
+                ? {}
+                : {
+                      result: {
+                          name: 'result',
+                          schema: convert(f.returns, prefix),
+                      },
+                  }),
+        })),
+        ...(used.length === 0
+            ? {}
+            : {
+                  components: {
+                      schemas: convertDefinitions(used, definitions, prefix),
+                  },
+              }),
+    };
+}
+
+// typescript declarations of an interface with the functions, as the
+// caller sees them, and the definitions they refer to, e.g.
+//  export interface Remote {
+//      add(arg0: number, arg1?: number): Promise<number>;
+//  }
+export function toTypeScript(
+    functions: FunctionDefinitions,
+    options: DeclarationOptions = {}
+): string {
+    const {name = 'Remote'} = options;
+    const definitions = definitionsOf(functions, options.definitions);
+    const used = referenced(
+        functions.flatMap((f) => [...f.args, f.returns]),
+        definitions
+    );
+
+    const declare = (t: Sendable) => describeSendable(t, {typescript: true});
+    const types = used.map(
+        (n) => `export type ${identifier(n)} = ${declare(definitions[n])};\n`
+    );
+    const methods = functions.map((f) => {
+        const args = describeArgs(f.args, {typescript: true});
+        const returns = f.oneway ? 'void' : declare(f.returns);
+        return `    ${propertyName(f.name)}(${args}): Promise<${returns}>;\n`;
+    });
+    return [
+        ...types.map((t) => t + '\n'),
+        `export interface ${identifier(name)} {\n`,
+        ...methods,
+        '}\n',
+    ].join('');
+}
+
+// the Sendable of a schema, and the definitions it refers to
+// supports the schemas toJSONSchema produces, and the subset of JSON Schema
+// which Sendables can describe: types, const, enum, anyOf and oneOf, $refs
+// to $defs, definitions or components/schemas, and the constraints of
+// numbers and strings
+// throws an Error which names the schema it can not convert
+export function fromJSONSchema(
+    schema: JSONSchema
+): {type: Sendable; definitions: Definitions} {
+    const definitions: Definitions = {};
+    const roots: {[prefix: string]: any} = {
+        '#/$defs/': schema.$defs,
+        '#/definitions/': schema.definitions,
+        '#/components/schemas/': schema.components?.schemas,
+    };
+
+    const ref = (pointer: string, path: string): Sendable => {
+        for (const prefix of Object.keys(roots)) {
+            if (pointer.startsWith(prefix)) {
+                const n = pointer.slice(prefix.length);
+                const target = roots[prefix];
+                if (!target || !has(target, n)) break;
+                if (!has(definitions, n)) {
+                    // refers to itself while it is converted
+                    setProperty(definitions, n, 0);
+                    definitions[n] = from(target[n], prefix + n);
+                }
+                return H.ref(n);
+            }
+        }
+        throw unsupported(path, `$ref ${pointer}`);
+    };
+
+    const from = (s: any, path: string): Sendable => {
+        if (!isPlainObject(s)) throw unsupported(path, JSON.stringify(s));
+        if (has(s, 'x-lwrpc')) return s['x-lwrpc'];
+        const keyword = unsupportedKeywords.find((k) => has(s, k));
+        if (keyword) throw unsupported(path, keyword);
+
+        let converted: Sendable;
+        if (isString(s.$ref)) {
+            converted = ref(s.$ref, path);
+        } else if (has(s, 'const')) {
+            converted = H.literal(literal(s.const, path + '/const'));
+        } else if (Array.isArray(s.enum)) {
+            converted = H.enum(
+                ...s.enum.map((l: any, i: number) =>
+                    literal(l, `${path}/enum/${i}`)
+                )
+            );
+        } else if (Array.isArray(s.anyOf) || Array.isArray(s.oneOf)) {
+            const k = s.anyOf ? 'anyOf' : 'oneOf';
+            converted = H.union(
+                ...s[k].map((u: any, i: number) => from(u, `${path}/${k}/${i}`))
+            );
+        } else if (Array.isArray(s.type)) {
+            converted = H.union(
+                ...s.type.map((t: any) => fromType(t, s, path))
+            );
+        } else {
+            converted = fromType(s.type, s, path);
+        }
+        return s.nullable === true ? H.nullable(converted) : converted;
+    };
+
+    const fromType = (t: any, s: any, path: string): Sendable => {
+        switch (t) {
+            case 'null':
+                return H.none;
+            case 'boolean':
+                return H.boolean;
+            case 'number':
+            case 'integer': {
+                const constrained = {
+                    ...(t === 'integer' ? {integer: true} : {}),
+                    ...(isNumber(s.minimum) ? {min: s.minimum} : {}),
+                    ...(isNumber(s.maximum) ? {max: s.maximum} : {}),
+                };
+                return Object.keys(constrained).length === 0
+                    ? H.number
+                    : t === 'integer' && Object.keys(constrained).length === 1
+                    ? H.integer
+                    : H.numberWith(constrained);
+            }
+            case 'string': {
+                const constrained = {
+                    ...(isNumber(s.minLength) ? {minLength: s.minLength} : {}),
+                    ...(isNumber(s.maxLength) ? {maxLength: s.maxLength} : {}),
+                    ...(isString(s.pattern) ? {pattern: s.pattern} : {}),
+                };
+                return Object.keys(constrained).length === 0
+                    ? H.string
+                    : H.stringWith(constrained);
+            }
+            case 'array':
+                if (Array.isArray(s.prefixItems)) {
+                    const required = isNumber(s.minItems)
+                        ? s.minItems
+                        : s.prefixItems.length;
+                    return s.prefixItems.map((p: any, i: number) => {
+                        const item = from(p, `${path}/prefixItems/${i}`);
+                        return i < required || isOptional(item)
+                            ? item
+                            : H.optional(item);
+                    });
+                } else if (isPlainObject(s.items)) {
+                    return H.array(from(s.items, path + '/items'));
+                }
+                throw unsupported(path, 'array without items');
+            case 'object': {
+                const additional = s.additionalProperties;
+                if (!isPlainObject(s.properties)) {
+                    return isPlainObject(additional)
+                        ? H.object(
+                              H.string,
+                              from(additional, path + '/additionalProperties')
+                          )
+                        : H.open({});
+                }
+                const required: string[] = Array.isArray(s.required)
+                    ? s.required
+                    : [];
+                const properties: {[key: string]: Sendable} = {};
+                for (const k of Object.keys(s.properties)) {
+                    const p = from(
+                        s.properties[k],
+                        `${path}/properties/${escapePointer(k)}`
+                    );
+                    setProperty(
+                        properties,
+                        k,
+                        required.includes(k) ? p : H.optional(p)
+                    );
+                }
+                if (additional === false) return properties;
+                if (additional === undefined || additional === true) {
+                    return H.open(properties);
+                }
+                throw unsupported(path, 'properties with additionalProperties');
+            }
+        }
+        throw unsupported(path, `type ${JSON.stringify(t)}`);
+    };
+
+    const type = from(schema, '#');
+    return {type, definitions};
+}
+
+// validation keywords which Sendables can not describe
+const unsupportedKeywords = [
+    'allOf',
+    'not',
+    'if',
+    'multipleOf',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'patternProperties',
+    'propertyNames',
+    'dependentRequired',
+    'dependentSchemas',
+    'minProperties',
+    'maxProperties',
+    'contains',
+    'uniqueItems',
+    'unevaluatedItems',
+    'unevaluatedProperties',
+];
+
+// Sendable values are plain JSON values, so the shapes of Sendables are
+// told apart by $c as in lwrpc
+type Container = {$c: number; [key: string]: any};
+type Properties = {[key: string]: Sendable};
+
+function convert(type: Sendable, prefix: string): JSONSchema {
+    if (isNumber(type)) {
+        return [
+            {type: 'null'},
+            {type: 'string'},
+            {type: 'number'},
+            {type: 'boolean'},
+        ][type];
+    } else if (Array.isArray(type)) {
+        // optional elements may be undefined, and left out after the last
+        // required one
+        return {
+            type: 'array',
+            prefixItems: type.map((e) =>
+                isOptional(e)
+                    ? {
+                          anyOf: [
+                              convert(e.$v, prefix),
+                              instanceSchemas.undefined,
+                          ],
+                          'x-lwrpc': e,
+                      }
+                    : convert(e, prefix)
+            ),
+            items: false,
+            minItems: requiredLength(type),
+            maxItems: type.length,
+        };
+    } else if (!isContainer(type)) {
+        return convertProperties(type as Properties, false, prefix);
+    }
+
+    const t = type as Container;
+    switch (t.$c) {
+        case 4:
+            return {type: 'array', items: convert(t.$v, prefix)};
+        case 5:
+            return {
+                type: 'object',
+                additionalProperties: convert(t.$v, prefix),
+                ...(t.$k === 2 ? {'x-lwrpc': t} : {}), // number keys
+            };
+        case 6:
+            return {anyOf: t.$t.map((u: Sendable) => convert(u, prefix))};
+        case 7:
+            return {const: t.$l};
+        case 8:
+            return {enum: t.$e};
+        case 9:
+            return {
+                type: t.$i ? 'integer' : 'number',
+                ...(t.$min === undefined ? {} : {minimum: t.$min}),
+                ...(t.$max === undefined ? {} : {maximum: t.$max}),
+            };
+        case 10:
+            return {
+                type: 'string',
+                ...(t.$min === undefined ? {} : {minLength: t.$min}),
+                ...(t.$max === undefined ? {} : {maxLength: t.$max}),
+                ...(t.$p === undefined ? {} : {pattern: t.$p}),
+            };
+        case 11:
+            return convert(t.$v, prefix); // the property or arg is not required
+        case 12:
+            return convertProperties(t.$p, true, prefix, t);
+        case 13:
+            return {$ref: prefix + t.$r};
+        case 14:
+            return {...instanceSchemas[t.$i], 'x-lwrpc': t};
+        case 15:
+            return {
+                ...encoded('map', {
+                    type: 'array',
+                    items: convert([t.$k, t.$v], prefix),
+                }),
+                'x-lwrpc': t,
+            };
+        case 16:
+            return {
+                ...encoded('set', {
+                    type: 'array',
+                    items: convert(t.$v, prefix),
+                }),
+                'x-lwrpc': t,
+            };
+        case 17:
+            return {
+                ...encoded(t.$n, {}),
+                description: `encoded by the ${t.$n} codec`,
+                'x-lwrpc': t,
+            };
+        case 18:
+            return {
+                type: 'array',
+                items: convert(t.$v, prefix),
+                description: 'a stream',
+                'x-lwrpc': t,
+            };
+        case 19:
+            return {description: 'a callback', 'x-lwrpc': t};
+    }
+    return {};
+}
+
+// the schema of a value encoded by a codec, as it is sent
+const encoded = (name: string, v: JSONSchema): JSONSchema => ({
+    type: 'object',
+    properties: {$lw: {const: name}, v},
+    required: ['$lw', 'v'],
+    additionalProperties: false,
+});
+
+const bytes = encoded('bytes', {type: 'string', contentEncoding: 'base64'});
+
+// the encoded values of the instances, see codecs
+// transferables are only sent by transports which carry them as they are
+const instanceSchemas: {[i: string]: JSONSchema} = {
+    date: encoded('date', {type: 'number'}),
+    bigint: encoded('bigint', {type: 'string', pattern: '^-?[0-9]+$'}),
+    bytes,
+    buffer: encoded('buffer', bytes),
+    transferable: {description: 'a transferable object'},
+    undefined: encoded('undefined', {type: 'null'}),
+};
+
+// objects with a $lw property are sent escaped, see codecs
+function convertProperties(
+    properties: Properties,
+    open: boolean,
+    prefix: string,
+    type: Sendable = properties
+): JSONSchema {
+    const keys = Object.keys(properties);
+    const converted: {[key: string]: JSONSchema} = {};
+    for (const k of keys) {
+        setProperty(converted, k, convert(properties[k], prefix));
+    }
+    const required = keys.filter((k) => !isOptional(properties[k]));
+    const schema = {
+        type: 'object',
+        properties: converted,
+        ...(required.length === 0 ? {} : {required}),
+        ...(open ? {} : {additionalProperties: false}),
+    };
+    return has(properties, '$lw')
+        ? {...encoded('object', schema), 'x-lwrpc': type}
+        : schema;
+}
+
+function convertDefinitions(
+    names: string[],
+    definitions: Definitions,
+    prefix: string
+): {[name: string]: JSONSchema} {
+    const converted: {[name: string]: JSONSchema} = {};
+    for (const n of names) {
+        setProperty(converted, n, convert(definitions[n], prefix));
+    }
+    return converted;
+}
+
+// the names of the definitions the types refer to, directly or not
+function referenced(types: Sendable[], definitions: Definitions): string[] {
+    const found = new Set<string>();
+    const visit = (t: any): void => {
+        if (Array.isArray(t)) {
+            t.forEach(visit);
+        } else if (isPlainObject(t)) {
+            if (t.$c === 13 && isString(t.$r)) {
+                if (!found.has(t.$r) && has(definitions, t.$r)) {
+                    found.add(t.$r);
+                    visit(definitions[t.$r]);
+                }
+            } else {
+                Object.keys(t).forEach((k) => visit(t[k]));
+            }
+        }
+    };
+    types.forEach(visit);
+    return Array.from(found);
+}
+
+const definitionsOf = (
+    functions: FunctionDefinitions,
+    definitions: Definitions = {}
+): Definitions => {
+    const all: Definitions = {};
+    for (const d of [
+        ...functions.map((f) =>
+            has(f, 'definitions') ? (f as any).definitions : {}
+        ),
+        definitions,
+    ]) {
+        for (const n of Object.keys(d)) setProperty(all, n, d[n]);
+    }
+    return all;
+};
+
+const literal = (l: any, path: string) => {
+    if (l === null || ['string', 'number', 'boolean'].includes(typeof l)) {
+        return l;
+    }
+    throw unsupported(path, JSON.stringify(l));
+};
+
+const unsupported = (path: string, what: string) =>
+    new Error(`can not convert the JSON Schema at ${path}: ${what}`);
+
+const escapePointer = (k: string) => k.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const isOptional = (t: any): t is {$c: 11; $v: Sendable} =>
+    isPlainObject(t) && t.$c === 11;
+const isContainer = (t: any) => isPlainObject(t) && has(t, '$c');
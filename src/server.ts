@@ -0,0 +1,246 @@
+// lwrpc server
+// publishes the same functions on many connections, and keeps track of them
+//  const server = createRpcServer({publish: fdo});
+//  wss.on('connection', (ws) => server.connectWebSocket(ws));
+//
+// namespaced functions are published as namespace.name
+// published functions find their connection in this.connection
+
+import {
+    CallContext,
+    Channel,
+    ChannelOptions,
+    createChannel,
+    LocalFunctionDefinition,
+    LocalFunctionName,
+    UnpublishedFunctionError,
+} from './lwrpc';
+import {Transport, webSocketTransport} from './transports';
+
+export type Connection<Remote = any, State = any> = {
+    id: number;
+    channel: Channel<Remote>;
+    state: State; // per connection, see ServerParams.state
+    namespaces: string[];
+};
+
+// the this of functions published by a server
+export type ServerCallContext<State = any> = CallContext & {
+    connection: Connection<any, State>;
+};
+
+// LocalFunctionDefinitions, which may use this.connection
+export type ServerFunctionDefinition<State = any> = Omit<
+    LocalFunctionDefinition,
+    'fn' | 'authorize'
+> & {
+    fn: (this: ServerCallContext<State>, ...args: any[]) => any;
+    authorize?: (
+        this: ServerCallContext<State>,
+        ...args: any[]
+    ) => boolean | Promise<boolean>;
+};
+
+export type ServerParams<State = any> = {
+    publish?: ServerFunctionDefinition<State>[]; // on every connection
+    namespaces?: {[namespace: string]: ServerFunctionDefinition<State>[]};
+    state?: () => State; // the initial state of a connection
+    channel?: ChannelOptions; // the options of every channel
+    onConnect?: (connection: Connection<any, State>) => void;
+    onDisconnect?: (
+        connection: Connection<any, State>,
+        reason?: string
+    ) => void;
+};
+
+export type ConnectOptions<State = any> = {
+    state?: State; // instead of ServerParams.state
+    namespaces?: string[]; // the namespaces published on the connection, default all
+    channel?: ChannelOptions; // added to ServerParams.channel
+};
+
+// the outcome of a call on one connection
+export type ConnectionResult<Remote = any, State = any> =
+    | {connection: Connection<Remote, State>; value: any}
+    | {connection: Connection<Remote, State>; error: any};
+
+export type ConnectionFilter<Remote, State> = (
+    connection: Connection<Remote, State>
+) => boolean;
+
+export type RpcServer<Remote = any, State = any> = {
+    connect: (
+        transport: Transport,
+        options?: ConnectOptions<State>
+    ) => Connection<Remote, State>;
+    connectWebSocket: (
+        ws: WebSocket,
+        options?: ConnectOptions<State> & {binary?: boolean}
+    ) => Connection<Remote, State>;
+    // the live connections, or the ones the filter accepts
+    connections: (
+        filter?: ConnectionFilter<Remote, State>
+    ) => Connection<Remote, State>[];
+    // notifies the connections which publish the function, returns the
+    // number notified
+    broadcast: (
+        name: keyof Remote & string,
+        args: any[],
+        filter?: ConnectionFilter<Remote, State>
+    ) => number;
+    // emits an event to the connections which handle the topic
+    // returns the number of connections the event was sent to
+    emit: (
+        topic: string,
+        payload: any,
+        filter?: ConnectionFilter<Remote, State>
+    ) => number;
+    // calls the function on the connections, and waits for every result
+    // connections which do not publish the function get an
+    // UnpublishedFunctionError, timeout is in milliseconds, like
+    // CallOptions.timeout
+    callAll: (
+        name: string,
+        args: any[],
+        options?: {filter?: ConnectionFilter<Remote, State>; timeout?: number}
+    ) => Promise<ConnectionResult<Remote, State>[]>;
+    close: (reason?: string) => void; // closes every connection
+};
+
+export function createRpcServer<Remote = any, State = any>(
+    params: ServerParams<State> = {}
+): RpcServer<Remote, State> {
+    const {publish = [], namespaces = {}} = params;
+
+    let counter = 1;
+    const live: {[key: number]: Connection<Remote, State>} = {};
+
+    // each connection gets its own definitions, so fn and authorize can
+    // find the connection
+    const bind = (
+        lfd: ServerFunctionDefinition<State>,
+        connection: Connection<Remote, State>,
+        prefix = ''
+    ): LocalFunctionDefinition => {
+        const {authorize, ...rest} = lfd;
+        return {
+            ...rest,
+            name: (prefix + lfd.name) as LocalFunctionName,
+            fn(this: CallContext, ...args: any[]) {
+                return lfd.fn.apply({...this, connection}, args);
+            },
+            ...(authorize
+                ? {
+                      authorize(this: CallContext, ...args: any[]) {
+                          return authorize.apply({...this, connection}, args);
+                      },
+                  }
+                : {}),
+        };
+    };
+
+    const connect = (
+        transport: Transport,
+        options: ConnectOptions<State> = {}
+    ): Connection<Remote, State> => {
+        const names = options.namespaces || Object.keys(namespaces);
+        for (const ns of names) {
+            if (!namespaces.hasOwnProperty(ns)) {
+                throw new Error('server has no namespace called ' + ns);
+            }
+        }
+
+        const connection = {
+            id: counter++,
+            state: options.hasOwnProperty('state')
+                ? options.state!
+                : params.state
+                ? params.state()
+                : (undefined as any),
+            namespaces: names,
+        } as Connection<Remote, State>;
+
+        connection.channel = createChannel<Remote>({
+            ...transport,
+            ...params.channel,
+            ...options.channel,
+            publish: [
+                ...publish.map((lfd) => bind(lfd, connection)),
+                ...names.flatMap((ns) =>
+                    namespaces[ns].map((lfd) => bind(lfd, connection, ns + '.'))
+                ),
+            ],
+        });
+
+        live[connection.id] = connection;
+        connection.channel.onClose((reason) => {
+            delete live[connection.id];
+            if (params.onDisconnect) params.onDisconnect(connection, reason);
+        });
+        if (live.hasOwnProperty(connection.id) && params.onConnect) {
+            params.onConnect(connection);
+        }
+        return connection;
+    };
+
+    const connections = (filter?: ConnectionFilter<Remote, State>) =>
+        Object.keys(live)
+            .map((id) => live[id as any])
+            .filter((c) => !filter || filter(c));
+
+    return {
+        connect,
+        connectWebSocket(ws, options = {}) {
+            const {messageLimits = {}} = {
+                ...params.channel,
+                ...options.channel,
+            };
+            return connect(
+                webSocketTransport(ws, options.binary, messageLimits.size),
+                options
+            );
+        },
+        connections,
+        // connections which do not publish the function are skipped, so
+        // notifications do not wait for it to be published
+        broadcast(name, args, filter) {
+            const targets = connections(filter).filter((c) =>
+                c.channel.remote.list().includes(name)
+            );
+            for (const c of targets) {
+                const notify: (...a: any[]) => Promise<void> =
+                    c.channel.notify[name];
+                notify(...args).catch(() => {});
+            }
+            return targets.length;
+        },
+        emit: (topic, payload, filter) =>
+            connections(filter).filter((c) => c.channel.emit(topic, payload))
+                .length,
+        // connections which do not publish the function fail at once,
+        // instead of waiting for it to be published
+        callAll: (name, args, options = {}) =>
+            Promise.all(
+                connections(options.filter).map((connection) =>
+                    !connection.channel.remote.list().includes(name)
+                        ? {
+                              connection,
+                              error: new UnpublishedFunctionError(
+                                  `Unpublished Function: ${name}`
+                              ),
+                          }
+                        : (connection.channel.withOptions({
+                              timeout: options.timeout,
+                          }) as any)
+                              [name](...args)
+                              .then(
+                                  (value: any) => ({connection, value}),
+                                  (error: any) => ({connection, error})
+                              )
+                )
+            ),
+        close(reason) {
+            for (const c of connections()) c.channel.close(reason);
+        },
+    };
+}
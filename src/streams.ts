@@ -0,0 +1,289 @@
+// lwrpc streams
+// a stream sends the items of an AsyncIterable to the other side of a channel
+// in place of the iterable the other side receives a placeholder: {$s: id}
+// which the channel replaces with an AsyncIterableIterator (see consume)
+//
+// the side which iterates (the consumer) grants credits to the side which
+// produces the items, the producer sends one item per credit
+// a stream which sends items beyond its credits fails with a ProtocolError
+// stream ids are chosen by the producer, credit and stop messages refer to
+// streams produced by the receiver, the other messages to streams it consumes
+
+import {
+    ApplicationErrorClass,
+    CancelledError,
+    ConnectionClosedError,
+    describeError,
+    ErrorDescription,
+    ProtocolError,
+    rebuildError,
+    RpcError,
+} from './errors';
+
+export type StreamMessage =
+    | {type: 'item'; stream: number; value: any}
+    | {type: 'end'; stream: number}
+    | ({type: 'stream-error'; stream: number} & ErrorDescription)
+    | {type: 'credit'; stream: number; credits: number}
+    | {type: 'stop'; stream: number};
+
+export type StreamPlaceholder = {$s: number};
+
+export type StreamParams = {
+    send: (m: StreamMessage) => void;
+    log: (...args: any[]) => void;
+    credits: number; // the number of items a producer may send ahead
+    errors?: ApplicationErrorClass[];
+    sendStack: boolean;
+};
+
+type Producer = {
+    grant: (credits: number) => void;
+    stop: () => void;
+};
+
+type Consumer = {
+    item: (value: any) => void;
+    end: () => void;
+    fail: (e: RpcError) => void;
+};
+
+export function createStreams(params: StreamParams) {
+    const {send, log, credits, errors, sendStack} = params;
+
+    let counter = 1;
+    const producers: {[key: number]: Producer} = {};
+    const consumers: {[key: number]: Consumer} = {};
+
+    // sends the items of the iterable as the consumer grants credits
+    // onFinish is called once the stream ends, fails or is stopped
+    const produce = (
+        iterable: AsyncIterable<any>,
+        onFinish: (stopped: boolean) => void = () => {}
+    ): StreamPlaceholder => {
+        const id = counter++;
+        const iterator = iterable[Symbol.asyncIterator]();
+        let available = 0;
+        let stopped = false;
+        let finished = false;
+        let wake = () => {};
+
+        const finish = () => {
+            if (!finished) {
+                finished = true;
+                delete producers[id];
+                onFinish(stopped);
+            }
+        };
+
+        producers[id] = {
+            grant(n) {
+                available += n;
+                wake();
+            },
+            stop() {
+                log('stream stopped', id);
+                stopped = true;
+                finish();
+                wake();
+                if (iterator.return) iterator.return().catch(() => {});
+            },
+        };
+
+        (async () => {
+            try {
+                while (true) {
+                    while (available === 0 && !stopped) {
+                        await new Promise<void>((r) => (wake = r));
+                    }
+                    if (stopped) return;
+
+                    const {value, done} = await iterator.next();
+                    if (stopped) return;
+                    if (done) {
+                        send({type: 'end', stream: id});
+                        return;
+                    }
+
+                    available--;
+                    send({type: 'item', stream: id, value});
+                }
+            } catch (e) {
+                log('stream failed', id, e);
+                if (!stopped) {
+                    send({
+                        type: 'stream-error',
+                        stream: id,
+                        ...describeError(e, sendStack),
+                    });
+                }
+            } finally {
+                finish();
+            }
+        })();
+
+        return {$s: id};
+    };
+
+    // stops a stream produced by this side, e.g. when its call fails
+    const stop = (placeholder: StreamPlaceholder): void => {
+        if (producers.hasOwnProperty(placeholder.$s)) {
+            producers[placeholder.$s].stop();
+        }
+    };
+
+    // the items of a stream produced by the other side
+    // check returns an error for invalid items, which ends the stream
+    const consume = (
+        placeholder: StreamPlaceholder,
+        check: (item: any, index: number) => RpcError | undefined,
+        signal?: AbortSignal
+    ): AsyncIterableIterator<any> => {
+        const id = placeholder.$s;
+        const buffer: any[] = [];
+        const waiting: {
+            resolve: (r: IteratorResult<any>) => void;
+            fail: (e: RpcError) => void;
+        }[] = [];
+        let index = 0;
+        let granted = credits; // the items the producer may send
+        let ended = false;
+        let error: RpcError | undefined;
+
+        const flush = () => {
+            while (waiting.length > 0) {
+                const w = waiting.shift()!;
+                if (buffer.length > 0) {
+                    if (consumers.hasOwnProperty(id)) {
+                        granted++;
+                        send({type: 'credit', stream: id, credits: 1});
+                    }
+                    w.resolve({value: buffer.shift(), done: false});
+                } else if (error) {
+                    w.fail(error);
+                } else if (ended) {
+                    w.resolve({value: undefined, done: true});
+                } else {
+                    waiting.unshift(w);
+                    return;
+                }
+            }
+        };
+
+        const finish = () => {
+            delete consumers[id];
+            signal?.removeEventListener('abort', abort);
+        };
+
+        // items received before an error are still delivered
+        const cancel = (e?: RpcError) => {
+            if (consumers.hasOwnProperty(id)) {
+                finish();
+                send({type: 'stop', stream: id});
+            }
+            if (e) {
+                error = e;
+            } else {
+                ended = true;
+                buffer.length = 0;
+            }
+            flush();
+        };
+
+        const abort = () => cancel(new CancelledError('stream cancelled'));
+
+        consumers[id] = {
+            item(value) {
+                if (index >= granted) {
+                    cancel(
+                        new ProtocolError(
+                            `stream ${id} sent more items than its credits`
+                        )
+                    );
+                    return;
+                }
+                const e = check(value, index++);
+                if (e) {
+                    cancel(e);
+                } else {
+                    buffer.push(value);
+                    flush();
+                }
+            },
+            end() {
+                finish();
+                ended = true;
+                flush();
+            },
+            fail(e) {
+                finish();
+                error = e;
+                flush();
+            },
+        };
+        signal?.addEventListener('abort', abort);
+        send({type: 'credit', stream: id, credits});
+
+        return {
+            next: () =>
+                new Promise((resolve, fail) => {
+                    waiting.push({resolve, fail});
+                    flush();
+                }),
+            async return() {
+                cancel();
+                return {value: undefined, done: true};
+            },
+            [Symbol.asyncIterator]() {
+                return this;
+            },
+        };
+    };
+
+    const receive = (m: StreamMessage): void => {
+        switch (m.type) {
+            case 'item':
+            case 'end':
+            case 'stream-error':
+                if (consumers.hasOwnProperty(m.stream)) {
+                    const consumer = consumers[m.stream];
+                    if (m.type === 'item') consumer.item(m.value);
+                    else if (m.type === 'end') consumer.end();
+                    else consumer.fail(rebuildError(m, errors));
+                } else {
+                    log('message for unknown stream', m);
+                }
+                break;
+            case 'credit':
+            case 'stop':
+                if (producers.hasOwnProperty(m.stream)) {
+                    const producer = producers[m.stream];
+                    if (m.type === 'credit') producer.grant(m.credits);
+                    else producer.stop();
+                } else {
+                    log('message for unknown stream', m);
+                }
+                break;
+        }
+    };
+
+    // fails the streams this side consumes and stops the ones it produces
+    const close = (): void => {
+        for (const k of Object.keys(consumers) as any) {
+            consumers[k].fail(new ConnectionClosedError('Connection Closed'));
+        }
+        for (const k of Object.keys(producers) as any) {
+            producers[k].stop();
+        }
+    };
+
+    return {produce, stop, consume, receive, close};
+}
+
+export const isStreamPlaceholder = (x: any): x is StreamPlaceholder =>
+    typeof x === 'object' && x !== null && typeof x.$s === 'number';
+
+export const isAsyncIterable = (x: any): x is AsyncIterable<any> =>
+    typeof x === 'object' &&
+    x !== null &&
+    typeof x[Symbol.asyncIterator] === 'function';
@@ -1,3 +1,5 @@
+// tslint:disable:max-classes-per-file
+
 import assert = require('assert');
 import mocha = require('mocha');
 const {describe, it} = mocha;
@@ -8,21 +10,84 @@ import {
     LocalFunctionName,
     H,
     LocalFunctionDefinition,
+    defineFunction,
+    RemoteFunctions,
+    RpcError,
+    RpcErrorCode,
+    ApplicationError,
+    RemoteExceptionError,
+    CallContext,
+    validate,
+    describeSendable,
+    describeFunction,
+    Codec,
+    Channel,
+    PROTOCOL_VERSION,
+    Middleware,
+    CallInfo,
+    Metadata,
+    parseTraceparent,
+    childTraceparent,
+    traceCalls,
+    createRpcServer,
+    ServerCallContext,
+    OverloadedError,
+    ProtocolError,
+    UnpublishedFunctionError,
+    builtinCodecs,
+    decodeValue,
+    transfer,
+    toJSONSchema,
+    toOpenRPC,
+    toTypeScript,
+    fromJSONSchema,
+    Definitions,
+    isCompatible,
+    checkContract,
+    compileValidator,
+    checkMessage,
+    releaseCallback,
+    Transport,
+    Framing,
+    messagePortTransport,
+    workerTransport,
+    processTransport,
+    streamTransport,
+    webSocketTransport,
+    createWebSocketChannel,
+    createReconnectingWebSocketChannel,
+    ConnectionState,
 } from 'lwrpc';
 
-async function assertRejects(fn: () => Promise<any>, expectedError?: string) {
+async function assertRejects(
+    fn: () => Promise<any>,
+    expectedMessage?: string,
+    expectedCode?: RpcErrorCode
+): Promise<any> {
     try {
         await fn();
-        throw new Error('Did Not Reject');
     } catch (e) {
-        if (expectedError !== undefined) {
-            assert.equal(e, expectedError);
+        if (expectedMessage !== undefined) {
+            assert.equal(e.message, expectedMessage);
+        }
+        if (expectedCode !== undefined) {
+            assert(e instanceof RpcError);
+            assert.equal(e.code, expectedCode);
         }
+        return e;
     }
+    throw new Error('Did Not Reject');
 }
 
 const preempt = async () => {};
 
+// waits for the channels to complete the handshake, and to send the
+// messages which wait for it
+async function handshake(...channels: Channel[]) {
+    await Promise.all(channels.map((c) => c.peer));
+    for (let i = 0; i < 5; i++) await preempt();
+}
+
 type HalfChannel = {
     id: number;
     r: (m: any) => Promise<void>;
@@ -209,11 +274,377 @@ describe('lwrpc Channel', () => {
 
             await assertRejects(
                 async () => await beta.noargs(''),
-                'Invalid Arguments'
+                'Invalid Arguments: args[0] is unexpected',
+                'INVALID_ARGUMENTS'
             );
             await assertRejects(
                 async () => await beta.stringarg(),
-                'Invalid Arguments'
+                'Invalid Arguments: args[0] should be string but is missing',
+                'INVALID_ARGUMENTS'
+            );
+        });
+    });
+
+    describe('validation diagnostics', () => {
+        it('reports the paths of invalid values', () => {
+            const person = {name: H.string, age: H.number};
+            const issues = validate(
+                ['x', {items: [{name: 'a', age: 1}], 'a b': true}],
+                [H.string, {items: H.array(person), 'a b': H.boolean}],
+                'args'
+            );
+            assert.deepEqual(issues, []);
+
+            assert.deepEqual(
+                validate(
+                    [
+                        1,
+                        {items: [{name: 'a', age: '1'}, {name: 'b'}], 'a b': 1},
+                    ],
+                    [H.string, {items: H.array(person), 'a b': H.boolean}],
+                    'args'
+                ),
+                [
+                    {path: 'args[0]', expected: H.string, actual: 'number'},
+                    {
+                        path: 'args[1].items[0].age',
+                        expected: H.number,
+                        actual: 'string',
+                    },
+                    {
+                        path: 'args[1].items[1].age',
+                        expected: H.number,
+                        actual: 'missing',
+                    },
+                    {
+                        path: 'args[1]["a b"]',
+                        expected: H.boolean,
+                        actual: 'number',
+                    },
+                ]
+            );
+        });
+
+        it('sends the issues to the caller', async () => {
+            const {alpha, beta} = createTestChannel(false);
+            alpha.publish({
+                name: 'people' as LocalFunctionName,
+                args: [H.array({name: H.string})],
+                returns: H.none,
+                fn: async () => null,
+            });
+            await preempt();
+
+            const e = await assertRejects(
+                () => beta.people([{name: 'a'}, {name: null, x: 1}]),
+                'Invalid Arguments: args[0][1].name should be string but is null, args[0][1].x is unexpected',
+                'INVALID_ARGUMENTS'
+            );
+            assert.deepEqual(e.data.issues, [
+                {path: 'args[0][1].name', expected: H.string, actual: 'null'},
+                {path: 'args[0][1].x', actual: 'number'},
+            ]);
+        });
+
+        it('compiles validators with the same issues', () => {
+            const definitions: Definitions = {
+                Tree: {value: H.number, children: H.array(H.ref('Tree'))},
+            };
+            const type = [
+                H.ref('Tree'),
+                H.union(H.literal('a'), H.stringWith({pattern: '^b+$'})),
+                H.open({id: H.integer, tag: H.optional(H.string)}),
+                H.object(H.string, H.set(H.number)),
+                H.ref('Later'),
+            ];
+            const validator = compileValidator(type, {definitions});
+            const cyclic: any = {value: 1, children: []};
+            cyclic.children.push(cyclic);
+            const values = [
+                [cyclic, 'bbb', {id: 1, x: 2}, {a: new Set([1])}, 'later'],
+                [
+                    {value: 1, children: [{value: '2', children: []}]},
+                    'c',
+                    {id: 1.5, tag: 1},
+                    {a: [1]},
+                    1,
+                ],
+                [cyclic, 'a', {}, null],
+            ];
+            for (const v of values) {
+                assert.deepEqual(
+                    validator(v, 'args'),
+                    validate(v, type, 'args', {definitions})
+                );
+            }
+            assert.equal(validator(values[0]).length, 1);
+
+            // definitions are found when they are defined later
+            definitions.Later = H.string;
+            assert.deepEqual(validator(values[0]), []);
+        });
+
+        it('allows optional args after the last required one to be left out', async () => {
+            const {alpha, beta} = createTestChannel(false);
+            alpha.publish({
+                name: 'scale' as LocalFunctionName,
+                args: [H.number, H.optional(H.number)],
+                returns: H.number,
+                fn: (n: number, by = 10) => n * by,
+            });
+            await preempt();
+
+            assert.equal(await beta.scale(2), 20);
+            assert.equal(await beta.scale(2, 3), 6);
+            await assertRejects(
+                () => beta.scale(),
+                undefined,
+                'INVALID_ARGUMENTS'
+            );
+
+            // optional elements before required ones are not left out
+            const type = [H.optional(H.string), H.number, H.optional(H.number)];
+            const validator = compileValidator(type);
+            for (const v of [
+                [undefined, 1],
+                ['a', 1, 2],
+                ['a'],
+                [1, 2, 3, 4],
+            ]) {
+                assert.deepEqual(validator(v), validate(v, type));
+            }
+            assert.deepEqual(validator(['a', 1]), []);
+            assert.deepEqual(validator(['a']), [
+                {path: 'value[1]', expected: H.number, actual: 'missing'},
+            ]);
+
+            // as do arrays imported with minItems
+            const {type: pair} = fromJSONSchema({
+                type: 'array',
+                prefixItems: [{type: 'number'}, {type: 'string'}],
+                minItems: 1,
+            });
+            assert.deepEqual(validate([1], pair), []);
+            assert.deepEqual(compileValidator(pair)([1]), []);
+        });
+
+        it('checks the keys of number keyed objects as numbers', () => {
+            const scores = H.object(2, H.string);
+            const validator = compileValidator(scores);
+            assert.deepEqual(validator({1: 'a', '-0.5': 'b', 1e21: 'c'}), []);
+            assert.deepEqual(validate({1: 'a', 2: 'b'}, scores), []);
+            for (const key of ['01', 'a', '', ' 1']) {
+                const issues = validate({[key]: 'a'}, scores);
+                assert.deepEqual(
+                    issues.map((issue) => issue.actual),
+                    ['key']
+                );
+                assert.deepEqual(validator({[key]: 'a'}), issues);
+            }
+            assert.deepEqual(validate({a: 'b'}, H.object(1, H.string)), []);
+        });
+
+        it('skips validation of trusted peers', async () => {
+            const {alpha, beta} = createTestObjectChannel(false);
+            const aC = createChannel({
+                ...alpha,
+                validation: {incoming: false},
+            });
+            const bC = createChannel({...beta, validation: {outgoing: false}});
+            aC.publish({
+                name: 'type' as LocalFunctionName,
+                args: [H.number],
+                returns: H.string,
+                fn: async (n: any) => typeof n,
+            });
+            const received: any[] = [];
+            aC.on('topic', H.number, (p) => received.push(p));
+            await handshake(aC, bC);
+
+            assert.equal(await bC.type('1'), 'string');
+            bC.emit('topic', 'x');
+            await handshake(aC, bC);
+            assert.deepEqual(received, ['x']);
+
+            // the other direction is still checked
+            aC.publish({
+                name: 'wrong' as LocalFunctionName,
+                args: [],
+                returns: H.string,
+                fn: async () => 1 as any,
+            });
+            bC.on('other', H.string, () => {});
+            await handshake(aC, bC);
+            await assertRejects(
+                () => bC.wrong(),
+                'invalid return value from rpc wrong: result should be string but is number',
+                'INVALID_RETURN'
+            );
+            assert.throws(
+                () => aC.emit('other', 1),
+                /invalid payload for other: payload should be string but is number/
+            );
+        });
+
+        it('describes Sendables', () => {
+            assert.equal(
+                describeSendable({
+                    list: H.array(H.union(H.string, H.none)),
+                    map: H.object(H.string, [H.number, H.boolean]),
+                }),
+                '{list: (string | null)[]; map: {[key: string]: [number, boolean]}}'
+            );
+        });
+    });
+
+    describe('sendable vocabulary', () => {
+        const valid = (value: any, type: Sendable) =>
+            validate(value, type).length === 0;
+
+        it('validates literals and enums', () => {
+            assert(valid('a', H.literal('a')));
+            assert(!valid('b', H.literal('a')));
+            assert(valid(null, H.literal(null)));
+            assert(valid(2, H.enum('a', 2, true)));
+            assert(!valid('2', H.enum('a', 2, true)));
+        });
+
+        it('validates nullable values', () => {
+            assert(valid(null, H.nullable(H.string)));
+            assert(valid('a', H.nullable(H.string)));
+            assert(!valid(1, H.nullable(H.string)));
+        });
+
+        it('validates integers and ranges', () => {
+            assert(valid(3, H.integer));
+            assert(!valid(3.5, H.integer));
+            assert(valid(0.5, H.numberWith({min: 0, max: 1})));
+            assert(!valid(-1, H.numberWith({min: 0})));
+            assert(!valid(2, H.numberWith({max: 1})));
+            assert(!valid(2.5, H.numberWith({max: 3, integer: true})));
+            assert(!valid('1', H.numberWith({})));
+        });
+
+        it('validates string lengths and patterns', () => {
+            const code = H.stringWith({minLength: 2, maxLength: 3});
+            assert(valid('ab', code));
+            assert(!valid('a', code));
+            assert(!valid('abcd', code));
+            assert(valid('a1', H.stringWith({pattern: /^[a-z]\d$/})));
+            assert(!valid('1a', H.stringWith({pattern: '^[a-z]\\d$'})));
+        });
+
+        it('validates optional properties', () => {
+            const type = {name: H.string, nick: H.optional(H.string)};
+            assert(valid({name: 'a'}, type));
+            assert(valid({name: 'a', nick: 'b'}, type));
+            assert(!valid({name: 'a', nick: null}, type));
+            assert(!valid({nick: 'b'}, type));
+        });
+
+        it('validates open objects', () => {
+            const type = H.open({name: H.string, nick: H.optional(H.string)});
+            assert(valid({name: 'a', other: 1}, type));
+            assert(!valid({nick: 'b', other: 1}, type));
+            assert(!valid(null, type));
+        });
+
+        it('describes the vocabulary', () => {
+            assert.equal(
+                describeSendable({
+                    kind: H.enum('a', 'b'),
+                    n: H.array(H.numberWith({min: 0, integer: true})),
+                    s: H.optional(H.stringWith({maxLength: 3})),
+                    o: H.open({'a b': H.literal(true)}),
+                }),
+                '{kind: "a" | "b"; n: (integer >= 0)[]; s?: string length <= 3; o: {"a b": true; ...}}'
+            );
+        });
+    });
+
+    describe('definitions', () => {
+        type TreeNode = {value: number; children: TreeNode[]};
+        const definitions = {
+            TreeNode: {value: H.number, children: H.array(H.ref('TreeNode'))},
+        };
+
+        it('validates recursive definitions', () => {
+            const tree = {value: 1, children: [{value: 2, children: []}]};
+            const type = H.ref('TreeNode');
+            assert.deepEqual(validate(tree, type, 'tree', {definitions}), []);
+
+            tree.children[0].value = 'x' as any;
+            assert.deepEqual(validate(tree, type, 'tree', {definitions}), [
+                {
+                    path: 'tree.children[0].value',
+                    expected: H.number,
+                    actual: 'string',
+                },
+            ]);
+
+            assert.deepEqual(validate(tree, type, 'tree', {}), [
+                {path: 'tree', expected: type, actual: 'object'},
+            ]);
+        });
+
+        it('validates cyclic values and definitions', () => {
+            const tree: TreeNode = {value: 1, children: []};
+            tree.children.push(tree);
+            assert.deepEqual(
+                validate(tree, H.ref('TreeNode'), 'tree', {definitions}),
+                []
+            );
+
+            const loop = {Loop: H.union(H.string, H.ref('Loop'))};
+            assert.deepEqual(
+                validate('a', H.ref('Loop'), 'v', {definitions: loop}),
+                []
+            );
+            assert.equal(
+                validate(1, H.ref('Loop'), 'v', {definitions: loop}).length,
+                1
+            );
+        });
+
+        it('sends definitions once', async () => {
+            const {alpha, beta} = createTestObjectChannel(false);
+            const sent: any[] = [];
+            const bC = createChannel(beta);
+            const aC = createChannel({
+                ...alpha,
+                send: (m: any) => {
+                    sent.push(m);
+                    return alpha.send(m);
+                },
+                definitions,
+            });
+
+            const depth = defineFunction({
+                name: 'depth',
+                args: [H.ref<TreeNode>('TreeNode')],
+                returns: H.number,
+                fn: (tree) => tree.children.length,
+            });
+            aC.publish(depth);
+            aC.publish({
+                ...depth,
+                name: 'tree' as LocalFunctionName,
+                args: [],
+                returns: H.ref('TreeNode'),
+                fn: async () => ({value: 1, children: []}),
+            });
+            await handshake(aC, bC);
+
+            assert.deepEqual(
+                sent.map((m) => m.type),
+                ['hello', 'define', 'publish', 'publish']
+            );
+            assert.deepEqual(await bC.tree(), {value: 1, children: []});
+            assert.equal(await bC.depth({value: 1, children: []}), 0);
+            await assertRejects(
+                () => bC.depth({value: 1}),
+                'Invalid Arguments: args[0].children should be TreeNode[] but is missing',
+                'INVALID_ARGUMENTS'
             );
         });
     });
@@ -236,8 +667,2715 @@ describe('lwrpc Channel', () => {
                 fn: async () => {},
             });
 
-            await assertRejects(beta.fn1, 'invalid return value from rpc fn1');
-            await assertRejects(beta.fn2, 'invalid return value from rpc fn2');
+            await assertRejects(
+                beta.fn1,
+                'invalid return value from rpc fn1: result should be null but is number',
+                'INVALID_RETURN'
+            );
+            await assertRejects(
+                beta.fn2,
+                'invalid return value from rpc fn2: result should be string but is null',
+                'INVALID_RETURN'
+            );
+        });
+    });
+
+    describe('errors', () => {
+        class OutOfStock extends ApplicationError<{item: string}> {}
+
+        const buy = {
+            name: 'buy' as LocalFunctionName,
+            args: [H.string],
+            returns: H.none,
+            fn: async (item: string) => {
+                throw new OutOfStock('out of stock', {item});
+            },
+        };
+
+        const crash = {
+            name: 'crash' as LocalFunctionName,
+            args: [],
+            returns: H.none,
+            fn: async () => {
+                throw new TypeError('oops');
+            },
+        };
+
+        it('reports calls to unpublished functions', async () => {
+            const {alpha, beta} = createTestObjectChannel(false);
+            createChannel(beta);
+
+            const reply = new Promise<any>((r) =>
+                alpha.registerReceive((received) => {
+                    if (received.type === 'error') r(received);
+                })
+            );
+            await alpha.send({
+                type: 'hello',
+                protocol: PROTOCOL_VERSION,
+                features: [],
+                codecs: [],
+            });
+            await alpha.send({type: 'call', nonce: 1, name: 'x', args: []});
+
+            const m = await reply;
+            assert.equal(m.type, 'error');
+            assert.equal(m.code, 'UNPUBLISHED_FUNCTION');
+            assert.equal(m.message, 'Unpublished Function: x');
+        });
+
+        it('sends exceptions with their name', async () => {
+            const {alpha, beta} = createTestChannel(false);
+            alpha.publish(crash);
+            await preempt();
+
+            const e = await assertRejects(
+                beta.crash,
+                'oops',
+                'REMOTE_EXCEPTION'
+            );
+            assert(e instanceof RemoteExceptionError);
+            assert.equal(e.remoteName, 'TypeError');
+            assert.equal(e.remoteStack, undefined);
+        });
+
+        it('sends stacks when enabled', async () => {
+            const {alpha, beta} = createTestObjectChannel(false);
+            const bC = createChannel(beta);
+            createChannel({...alpha, sendStack: true, publish: [crash]});
+            await preempt();
+
+            const e = await assertRejects(bC.crash, 'oops');
+            assert(e.remoteStack.includes('TypeError: oops'));
+        });
+
+        it('rebuilds application errors', async () => {
+            const {alpha, beta} = createTestObjectChannel(false);
+            const aC = createChannel({...alpha, errors: [OutOfStock]});
+            const bC = createChannel(beta);
+            bC.publish(buy);
+            await preempt();
+
+            const e = await assertRejects(
+                () => aC.buy('socks'),
+                'out of stock',
+                'APPLICATION_ERROR'
+            );
+            assert(e instanceof OutOfStock);
+            assert.deepEqual(e.data, {item: 'socks'});
+        });
+
+        it('rebuilds unknown application errors as ApplicationError', async () => {
+            const {alpha, beta} = createTestChannel(false);
+            alpha.publish(buy);
+            await preempt();
+
+            const e = await assertRejects(() => beta.buy('hats'));
+            assert(e instanceof ApplicationError);
+            assert(!(e instanceof OutOfStock));
+            assert.equal(e.remoteName, 'OutOfStock');
+            assert.deepEqual(e.data, {item: 'hats'});
+        });
+
+        it('sends errors without data which can not be encoded', async () => {
+            const {alpha, beta} = createTestChannel(false);
+            const cyclic: any = {};
+            cyclic.self = cyclic;
+            alpha.publish(addDefinition);
+            alpha.publish({
+                name: 'tangle' as LocalFunctionName,
+                args: [],
+                returns: H.none,
+                fn() {
+                    throw new ApplicationError('bad', cyclic);
+                },
+            });
+            await preempt();
+
+            const e = await assertRejects(
+                () => beta.tangle(),
+                'bad',
+                'APPLICATION_ERROR'
+            );
+            assert.equal(e.data, undefined);
+            assert.equal(await beta.add(1, 2), 3);
+        });
+    });
+});
+
+describe('codecs', () => {
+    class Point {
+        constructor(public x: number, public y: number) {}
+    }
+
+    const pointCodec: Codec<Point> = {
+        name: 'point',
+        is: (value) => value instanceof Point,
+        encode: (p) => [p.x, p.y],
+        decode: ([x, y]) => new Point(x, y),
+    };
+
+    // sends messages as JSON, like a web socket
+    function createJSONChannels(codecs: Codec[] = []) {
+        const {alpha, beta} = createTestObjectChannel(false);
+        for (const half of [alpha, beta]) {
+            const send = half.send;
+            half.send = (m) => send(JSON.parse(JSON.stringify(m)));
+        }
+        return {
+            alpha: createChannel({...alpha, codecs}),
+            beta: createChannel({...beta, codecs}),
+        };
+    }
+
+    const echo = (type: Sendable) => ({
+        name: 'echo' as LocalFunctionName,
+        args: [type],
+        returns: type,
+        fn: async (v: any) => v,
+    });
+
+    it('sends rich values', async () => {
+        const {alpha, beta} = createJSONChannels();
+        const type = {
+            date: H.date,
+            id: H.bigint,
+            blob: H.bytes,
+            buffer: H.buffer,
+            tags: H.set(H.string),
+            scores: H.map(H.string, H.number),
+            missing: H.undefined,
+            $lw: H.string,
+        };
+        alpha.publish(echo(type));
+        await preempt();
+
+        const value = {
+            date: new Date(1600000000000),
+            id: BigInt('12345678901234567890'),
+            blob: new Uint8Array([0, 1, 254, 255]),
+            buffer: new Uint8Array([7, 8]).buffer,
+            tags: new Set(['a', 'b']),
+            scores: new Map([['a', 1]]),
+            missing: undefined,
+            $lw: 'date',
+        };
+        assert.deepEqual(await beta.echo(value), value);
+    });
+
+    it('sends undefined results when they are expected', async () => {
+        const {alpha, beta} = createJSONChannels();
+        alpha.publish({...echo(H.undefined), args: []});
+        alpha.publish({
+            ...echo(H.none),
+            name: 'none' as LocalFunctionName,
+            args: [],
+        });
+        await preempt();
+
+        assert.strictEqual(await beta.echo(), undefined);
+        assert.strictEqual(await beta.none(), null);
+    });
+
+    it('uses custom codecs', async () => {
+        const {alpha, beta} = createJSONChannels([pointCodec]);
+        alpha.publish(echo(H.array(H.codec<Point>('point'))));
+        await preempt();
+
+        const points = await beta.echo([new Point(1, 2)]);
+        assert(points[0] instanceof Point);
+        assert.deepEqual(points, [new Point(1, 2)]);
+
+        await assertRejects(
+            () => beta.echo([{x: 1, y: 2}]),
+            'Invalid Arguments: args[0][0] should be point but is object'
+        );
+    });
+
+    it('validates decoded values', () => {
+        const v = (value: any, type: Sendable) => validate(value, type)[0];
+        assert.equal(v(new Date(NaN), H.date).actual, 'Date');
+        assert.equal(v('2020-01-01', H.date).actual, 'string');
+        assert.equal(v(1, H.bigint).actual, 'number');
+        assert.equal(v([1], H.bytes).actual, 'array');
+        assert.equal(
+            v(new Map([[1, 'a']]), H.map(H.number, H.number)).path,
+            'value.entries[0][1]'
+        );
+        assert.equal(v(new Set([1]), H.set(H.string)).path, 'value.values[0]');
+        assert.equal(v(null, H.undefined).actual, 'null');
+    });
+    it('closes the channel on malformed encoded values', async () => {
+        for (const v of [
+            {$lw: 'bigint', v: 'zz'},
+            {$lw: 'map', v: 5},
+            {$lw: 'set', v: {}},
+            {$lw: 'object', v: null},
+            {$lw: 'bytes', v: '%'},
+            {$lw: 'date', v: '2020'},
+        ]) {
+            assert.throws(
+                () => decodeValue(v, builtinCodecs),
+                (e: any) => e instanceof ProtocolError
+            );
+        }
+
+        const {alpha, beta} = createTestObjectChannel(false);
+        const bC = createChannel(beta);
+        await alpha.send({
+            type: 'hello',
+            protocol: PROTOCOL_VERSION,
+            features: [],
+            codecs: ['bigint'],
+        });
+        await alpha.send({
+            type: 'call',
+            nonce: 1,
+            name: 'x',
+            args: [{$lw: 'bigint', v: 'zz'}],
+        });
+        assert.equal(await bC.closed, 'malformed message');
+    });
+});
+
+describe('timeouts and cancellation', () => {
+    const never = {
+        name: 'never' as LocalFunctionName,
+        args: [],
+        returns: H.none,
+        fn(this: CallContext) {
+            return new Promise((_, fail) => {
+                this.signal.addEventListener('abort', () => fail('aborted'));
+            });
+        },
+    };
+
+    it('times out calls which are never answered', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const aC = createChannel({...alpha, timeout: 10});
+        createChannel({...beta, publish: [never]});
+
+        await assertRejects(aC.never, 'call to never timed out', 'TIMEOUT');
+    });
+
+    it('times out calls to functions which are never published', async () => {
+        const {alpha, beta} = createTestChannel(false);
+
+        await assertRejects(
+            () => alpha.withOptions({timeout: 10}).missing(),
+            'call to missing timed out',
+            'TIMEOUT'
+        );
+
+        // the call is no longer waiting for publication
+        beta.publish(addDefinition);
+        await preempt();
+        assert.equal(await alpha.add(1, 2), 3);
+    });
+
+    it('can await the proxies from withOptions and notify', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        beta.publish(addDefinition);
+        await preempt();
+
+        // async functions await the proxies they return
+        const withTimeout = async () => alpha.withOptions({timeout: 10});
+        const proxy = await withTimeout();
+        assert.equal(await proxy.add(1, 2), 3);
+
+        const notify = async () => alpha.notify;
+        const notifying = await notify();
+        notifying.add(1, 2);
+        assert.deepEqual(alpha.remote.list(), ['add']);
+    });
+
+    it('can be cancelled with an AbortSignal', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish(addDefinition);
+        await preempt();
+
+        const aborted = new AbortController();
+        aborted.abort();
+        await assertRejects(
+            () => beta.withOptions({signal: aborted.signal}).add(1, 2),
+            'call to add was cancelled',
+            'CANCELLED'
+        );
+
+        const controller = new AbortController();
+        const call = beta.withOptions({signal: controller.signal}).missing();
+        controller.abort();
+        await assertRejects(() => call, undefined, 'CANCELLED');
+    });
+
+    it('aborts the signal of the remote function', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const bC = createChannel(beta);
+
+        let signal: AbortSignal | undefined;
+        const aC = createChannel({
+            ...alpha,
+            publish: [
+                {
+                    ...never,
+                    fn(this: CallContext) {
+                        signal = this.signal;
+                        return never.fn.call(this);
+                    },
+                },
+            ],
+        });
+        await handshake(aC, bC);
+
+        const controller = new AbortController();
+        const call = bC.withOptions({signal: controller.signal}).never();
+        await preempt();
+        await preempt();
+        assert(signal !== undefined && !signal.aborted);
+
+        controller.abort();
+        await assertRejects(() => call, undefined, 'CANCELLED');
+        await preempt();
+        await preempt();
+        assert(signal.aborted);
+    });
+});
+
+describe('streams', () => {
+    const count = {
+        name: 'count' as LocalFunctionName,
+        args: [H.number],
+        returns: H.stream(H.number),
+        async *fn(n: number) {
+            for (let i = 0; i < n; i++) yield i;
+        },
+    };
+
+    const collect = async (items: AsyncIterable<any>) => {
+        const collected = [];
+        for await (const item of items) collected.push(item);
+        return collected;
+    };
+
+    const settle = async () => {
+        for (let i = 0; i < 10; i++) await preempt();
+    };
+
+    it('streams results', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish(count);
+        await preempt();
+
+        assert.deepEqual(await collect(await beta.count(5)), [0, 1, 2, 3, 4]);
+        assert.deepEqual(await collect(await beta.count(0)), []);
+    });
+
+    it('sends items as the consumer grants credits', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const bC = createChannel({...beta, streamCredits: 2});
+
+        let produced = 0;
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    ...count,
+                    async *fn() {
+                        while (true) yield produced++;
+                    },
+                },
+            ],
+        });
+        await preempt();
+
+        const items = await bC.count(0);
+        await settle();
+        assert.equal(produced, 2);
+
+        await items.next();
+        await settle();
+        assert.equal(produced, 3);
+    });
+
+    it('stops the producer when the consumer stops', async () => {
+        const {alpha, beta} = createTestChannel(false);
+
+        let signal: AbortSignal | undefined;
+        let finished = false;
+        alpha.publish({
+            ...count,
+            async *fn(this: CallContext) {
+                signal = this.signal;
+                try {
+                    for (let i = 0; ; i++) yield i;
+                } finally {
+                    finished = true;
+                }
+            },
+        });
+        await preempt();
+
+        for await (const i of await beta.count(0)) {
+            if (i === 2) break;
+        }
+        await settle();
+        assert(signal !== undefined && signal.aborted);
+        assert(finished);
+    });
+
+    it('validates items', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish({
+            ...count,
+            async *fn() {
+                yield 1;
+                yield 'two';
+            },
+        });
+        await preempt();
+
+        const items = await beta.count(0);
+        assert.deepEqual(await items.next(), {value: 1, done: false});
+        await assertRejects(
+            () => items.next(),
+            'invalid stream item from rpc count: result[1] should be number but is string',
+            'INVALID_RETURN'
+        );
+    });
+
+    it('sends exceptions thrown by the stream', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish({
+            ...count,
+            async *fn() {
+                yield 1;
+                throw new TypeError('no more');
+            },
+        });
+        await preempt();
+
+        const e = await assertRejects(
+            async () => collect(await beta.count(0)),
+            'no more',
+            'REMOTE_EXCEPTION'
+        );
+        assert.equal(e.remoteName, 'TypeError');
+    });
+
+    it('fails streams which send more items than their credits', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const bC = createChannel({...beta, streamCredits: 2});
+        const calls: any[] = [];
+        alpha.registerReceive(async (m) => {
+            if (m.type === 'call') calls.push(m);
+        });
+
+        await alpha.send({
+            type: 'hello',
+            protocol: PROTOCOL_VERSION,
+            features: ['streams'],
+            codecs: [],
+        });
+        await alpha.send({
+            type: 'publish',
+            name: 'count',
+            args: [H.number],
+            returns: H.stream(H.number),
+        });
+        const result = bC.count(0);
+        await settle();
+        await alpha.send({
+            type: 'result',
+            nonce: calls[0].nonce,
+            value: {$s: 1},
+        });
+        const items = await result;
+        for (const value of [0, 1, 2]) {
+            await alpha.send({type: 'item', stream: 1, value});
+        }
+
+        assert.deepEqual(await items.next(), {value: 0, done: false});
+        assert.deepEqual(await items.next(), {value: 1, done: false});
+        await assertRejects(
+            () => items.next(),
+            'stream 1 sent more items than its credits',
+            'PROTOCOL_ERROR'
+        );
+    });
+
+    it('streams arguments', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish({
+            name: 'sum' as LocalFunctionName,
+            args: [H.stream(H.number)],
+            returns: H.number,
+            fn: async (numbers: AsyncIterable<number>) => {
+                let sum = 0;
+                for await (const n of numbers) sum += n;
+                return sum;
+            },
+        });
+        await preempt();
+
+        async function* stream(...values: any[]) {
+            yield* values;
+        }
+        assert.equal(await beta.sum(stream(1, 2, 3)), 6);
+        await assertRejects(
+            () => beta.sum(stream(1, '2')),
+            'Invalid Arguments: args[0][1] should be number but is string',
+            'INVALID_ARGUMENTS'
+        );
+        await assertRejects(
+            () => beta.sum([1, 2]),
+            'Invalid Arguments: args[0] should be AsyncIterable<number> but is array',
+            'INVALID_ARGUMENTS'
+        );
+    });
+
+    it('fails streams when the connection closes', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const bC = createChannel(beta);
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    ...count,
+                    async *fn() {
+                        yield 1;
+                        await new Promise(() => {});
+                    },
+                },
+            ],
+        });
+        await preempt();
+
+        const items = await bC.count(0);
+        assert.deepEqual(await items.next(), {value: 1, done: false});
+        const next = items.next();
+        await beta.c();
+        await assertRejects(() => next, undefined, 'CONNECTION_CLOSED');
+    });
+});
+
+describe('callbacks', () => {
+    const work = {
+        name: 'work' as LocalFunctionName,
+        args: [H.integer, H.callback([H.integer], H.none)],
+        returns: H.string,
+        fn: async (steps: number, onProgress: (step: number) => any) => {
+            for (let step = 1; step <= steps; step++) await onProgress(step);
+            return 'done';
+        },
+    };
+
+    it('calls functions passed as args', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish(work);
+        await preempt();
+
+        const progress: number[] = [];
+        const result = await beta.work(3, (step: number) => {
+            progress.push(step);
+            return null;
+        });
+        assert.equal(result, 'done');
+        assert.deepEqual(progress, [1, 2, 3]);
+    });
+
+    it('finds callbacks inside args and checks their args and returns', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish({
+            name: 'transform' as LocalFunctionName,
+            args: [H.array(H.string), {map: H.callback([H.string], H.string)}],
+            returns: H.array(H.string),
+            fn: async (words: string[], {map}: {map: (w: string) => any}) =>
+                Promise.all(words.map((w) => map(w))),
+        });
+        await preempt();
+
+        assert.deepEqual(
+            await beta.transform(['a', 'b'], {map: (w: string) => w + w}),
+            ['aa', 'bb']
+        );
+        await assertRejects(
+            () => beta.transform(['a'], {map: (w: string) => w.length}),
+            'invalid return value from rpc transform callback: result should be string but is number',
+            'INVALID_RETURN'
+        );
+        await assertRejects(
+            () => beta.transform(['a'], {map: 'upper'}),
+            'Invalid Arguments: args[1].map should be (arg0: string) => string but is string',
+            'INVALID_ARGUMENTS'
+        );
+    });
+
+    it('releases callbacks when the call returns', async () => {
+        const {alpha, beta} = createTestChannel(false);
+
+        let kept: () => Promise<any> = async () => {};
+        alpha.publish({
+            name: 'keep' as LocalFunctionName,
+            args: [H.callback([], H.none)],
+            returns: H.none,
+            fn: (f: () => Promise<any>) => {
+                kept = f;
+                return null;
+            },
+        });
+        await preempt();
+
+        await beta.keep(() => null);
+        await assertRejects(
+            kept,
+            'Released Callback: keep callback',
+            'UNPUBLISHED_FUNCTION'
+        );
+    });
+
+    it('keeps persistent callbacks until they are released', async () => {
+        const {alpha, beta} = createTestChannel(false);
+
+        const listeners: ((m: string) => Promise<any>)[] = [];
+        alpha.publish({
+            name: 'subscribe' as LocalFunctionName,
+            args: [H.callback([H.string], H.none, {persistent: true})],
+            returns: H.none,
+            fn: (listener: (m: string) => Promise<any>) => {
+                listeners.push(listener);
+                return null;
+            },
+        });
+        await preempt();
+
+        const received: string[] = [];
+        await beta.subscribe((m: string) => {
+            received.push(m);
+            return null;
+        });
+        await listeners[0]('hello');
+        assert.deepEqual(received, ['hello']);
+
+        releaseCallback(listeners[0]);
+        await preempt();
+        await preempt();
+        await assertRejects(
+            () => listeners[0]('again'),
+            undefined,
+            'UNPUBLISHED_FUNCTION'
+        );
+        assert.deepEqual(received, ['hello']);
+    });
+
+    it('describes callbacks', () => {
+        assert.equal(
+            describeSendable(H.array(H.callback([H.number, H.string], H.none))),
+            '((arg0: number, arg1: string) => null)[]'
+        );
+    });
+});
+
+describe('notifications and events', () => {
+    const logged: string[] = [];
+    const log = {
+        name: 'log' as LocalFunctionName,
+        args: [H.string],
+        returns: H.none,
+        fn: (message: string) => {
+            logged.push(message);
+            return null;
+        },
+    };
+
+    const settle = async () => {
+        for (let i = 0; i < 5; i++) await preempt();
+    };
+
+    it('sends notifications without results', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const sent: string[] = [];
+        const send = alpha.send;
+        alpha.send = (m) => {
+            sent.push(m.type);
+            return send(m);
+        };
+        const bC = createChannel(beta);
+        const aC = createChannel({...alpha, publish: [log]});
+        await handshake(aC, bC);
+
+        logged.length = 0;
+        assert.strictEqual(await bC.notify.log('hello'), undefined);
+        await bC.notify.log(42); // invalid notifications are dropped
+        await settle();
+        assert.deepEqual(logged, ['hello']);
+        assert.deepEqual(sent, ['hello', 'publish']);
+    });
+
+    it('sends notifications for calls of oneway functions', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish({...log, oneway: true});
+        await preempt();
+
+        logged.length = 0;
+        assert.strictEqual(await beta.log('oneway'), undefined);
+        await settle();
+        assert.deepEqual(logged, ['oneway']);
+    });
+
+    it('emits events to handlers of their topic', async () => {
+        const {alpha, beta} = createTestChannel(false);
+
+        const counts: number[] = [];
+        const off = beta.on('state', {count: H.integer}, (state) =>
+            counts.push(state.count)
+        );
+        await settle();
+
+        assert.equal(alpha.emit('state', {count: 1}), true);
+        assert.equal(alpha.emit('other', {count: 2}), false);
+        const e = await assertRejects(
+            async () => alpha.emit('state', {count: 'many'}),
+            'invalid payload for state: payload.count should be integer but is string',
+            'INVALID_ARGUMENTS'
+        );
+        assert.equal(e.data.issues[0].path, 'payload.count');
+        await settle();
+        assert.deepEqual(counts, [1]);
+
+        off();
+        await settle();
+        assert.equal(alpha.emit('state', {count: 3}), false);
+        assert.deepEqual(counts, [1]);
+    });
+
+    it('has one payload schema for each topic', () => {
+        const {beta} = createTestChannel(false);
+        beta.on('state', H.string, () => {});
+        beta.on('state', H.string, () => {});
+        assert.throws(
+            () => beta.on('state', H.number, () => {}),
+            /already handles state with another payload/
+        );
+    });
+});
+
+describe('batching', () => {
+    // records the messages sent by beta, and the calls in batches
+    async function createRecordedChannels(params: any = {}) {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const sent: string[] = [];
+        const send = beta.send;
+        beta.send = (m) => {
+            sent.push(
+                m.type === 'batch'
+                    ? `batch(${m.messages.map((b: any) => b.type)})`
+                    : m.type
+            );
+            return send(m);
+        };
+        const bC = createChannel({...beta, ...params});
+        createChannel({...alpha, publish: [addDefinition]});
+        await preempt();
+        await bC.add(0, 0);
+        sent.length = 0;
+        return {channel: bC, sent};
+    }
+
+    const addAll = (channel: any, n: number) =>
+        Promise.all([...Array(n).keys()].map((i) => channel.add(i, 1)));
+
+    it('sends messages of the same tick together', async () => {
+        const {channel, sent} = await createRecordedChannels({batching: true});
+        assert.deepEqual(await addAll(channel, 3), [1, 2, 3]);
+        assert.deepEqual(sent, ['batch(call,call,call)']);
+
+        sent.length = 0;
+        await channel.add(1, 1);
+        assert.deepEqual(sent, ['call']);
+    });
+
+    it('sends full batches', async () => {
+        const {channel, sent} = await createRecordedChannels({
+            batching: {maxSize: 2},
+        });
+        assert.deepEqual(await addAll(channel, 3), [1, 2, 3]);
+        assert.deepEqual(sent, ['batch(call,call)', 'call']);
+    });
+
+    it('waits for the window to close', async () => {
+        const {channel, sent} = await createRecordedChannels({
+            batching: {window: 10},
+        });
+        const first = channel.add(1, 1);
+        await preempt();
+        const second = channel.add(2, 2);
+        assert.deepEqual(sent, []);
+        assert.deepEqual(await Promise.all([first, second]), [2, 4]);
+        assert.deepEqual(sent, ['batch(call,call)']);
+    });
+
+    it('sends the messages of a batch scope together', async () => {
+        const {channel, sent} = await createRecordedChannels();
+        assert.deepEqual(await addAll(channel, 2), [1, 2]);
+        assert.deepEqual(sent, ['call', 'call']);
+
+        sent.length = 0;
+        const sums = await channel.batch(() => addAll(channel, 3));
+        assert.deepEqual(sums, [1, 2, 3]);
+        assert.deepEqual(sent, ['batch(call,call,call)']);
+    });
+    it('closes the channel on malformed batches', async () => {
+        for (const batch of [
+            {type: 'batch', messages: 5},
+            {type: 'batch', messages: [null]},
+            {type: 'batch', messages: [{type: 'batch', messages: {}}]},
+        ]) {
+            const {alpha, beta} = createTestObjectChannel(false);
+            const bC = createChannel(beta);
+            await alpha.send({
+                type: 'hello',
+                protocol: PROTOCOL_VERSION,
+                features: ['batching'],
+                codecs: [],
+            });
+            await alpha.send(batch);
+            assert.equal(await bC.closed, 'malformed message');
+        }
+    });
+});
+
+describe('lifecycle', () => {
+    it('closes both sides', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        alpha.publish(addDefinition);
+        beta.publish(addDefinition);
+        assert.equal(await beta.add(1, 2), 3);
+
+        const reasons: (string | undefined)[] = [];
+        beta.onClose((reason) => reasons.push(reason));
+        alpha.close('done');
+        assert.equal(await alpha.closed, 'done');
+        assert.equal(await beta.closed, 'done');
+        assert.deepEqual(reasons, ['done']);
+
+        // handlers added after closing are called immediately
+        alpha.onClose((reason) => reasons.push(reason));
+        assert.deepEqual(reasons, ['done', 'done']);
+
+        await assertRejects(
+            () => alpha.add(1, 2),
+            'call to add after the channel closed',
+            'CONNECTION_CLOSED'
+        );
+        await assertRejects(
+            () => beta.add(1, 2),
+            undefined,
+            'CONNECTION_CLOSED'
+        );
+        await assertRejects(
+            () => beta.notify.add(1, 2),
+            undefined,
+            'CONNECTION_CLOSED'
+        );
+    });
+
+    it('fails calls waiting for publication when the transport closes', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const aC = createChannel(alpha);
+        createChannel(beta);
+
+        const call = aC.add(1, 2);
+        await preempt();
+        await alpha.c();
+        await assertRejects(
+            () => call,
+            'channel closed before add was published',
+            'CONNECTION_CLOSED'
+        );
+        assert.equal(await aC.closed, undefined);
+    });
+
+    it('unpublishes functions', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        const published: string[] = [];
+        beta.onPublish((name) => published.push(name));
+        alpha.publish(addDefinition);
+        assert.equal(await beta.add(1, 2), 3);
+
+        alpha.unpublish('add');
+        await preempt();
+        await assertRejects(
+            () => beta.withOptions({timeout: 10}).add(1, 2),
+            undefined,
+            'TIMEOUT'
+        );
+
+        const call = beta.add(2, 2);
+        await preempt();
+        alpha.publish(addDefinition);
+        assert.equal(await call, 4);
+        assert.deepEqual(published, ['add', 'add']);
+
+        assert.throws(
+            () => alpha.unpublish('missing'),
+            /no published function called missing/
+        );
+    });
+
+    it('calls open handlers when connected', async () => {
+        const {alpha} = createTestChannel(false);
+        let opened = 0;
+        const remove = alpha.onOpen(() => opened++);
+        assert.equal(opened, 1);
+        remove();
+        alpha.close();
+        assert.equal(await alpha.closed, undefined);
+        assert.equal(opened, 1);
+    });
+});
+
+describe('handshake', () => {
+    it('exchanges the protocol, features and info', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const aC = createChannel({
+            ...alpha,
+            features: ['streams'],
+            info: {version: '2.1'},
+        });
+        const bC = createChannel(beta);
+
+        const peer = await bC.peer;
+        assert.equal(peer.protocol, PROTOCOL_VERSION);
+        assert.deepEqual(peer.features, ['streams']);
+        assert.deepEqual(peer.info, {version: '2.1'});
+        assert(peer.codecs.includes('date'));
+        assert.deepEqual((await aC.peer).features, ['streams']);
+        assert.equal((await aC.peer).info, undefined);
+    });
+
+    it('refuses incompatible peers', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const bC = createChannel(beta);
+        const received: any[] = [];
+        alpha.registerReceive(async (m) => {
+            received.push(m);
+        });
+
+        await alpha.send({
+            type: 'hello',
+            protocol: 0,
+            features: [],
+            codecs: [],
+        });
+        const reason = 'incompatible protocol version 0, expected 1';
+        assert.equal(await bC.closed, reason);
+        await assertRejects(() => bC.peer, reason, 'CONNECTION_CLOSED');
+        assert.deepEqual(received.pop(), {type: 'close', reason});
+
+        // peers which do not start with hello
+        const other = createTestObjectChannel(false);
+        const cC = createChannel(other.beta);
+        await other.alpha.send({type: 'expect', name: 'add'});
+        assert.equal(await cC.closed, 'the other side did not send hello');
+    });
+
+    it('refuses peers with checkPeer', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const aC = createChannel({...alpha, info: {version: 1}});
+        const bC = createChannel({
+            ...beta,
+            checkPeer: (peer) =>
+                peer.info?.version >= 2 ? undefined : 'version 2 required',
+        });
+
+        assert.equal(await bC.closed, 'version 2 required');
+        assert.equal(await aC.closed, 'version 2 required');
+    });
+
+    it('uses optional features when both sides enable them', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const sent: string[] = [];
+        const send = beta.send;
+        beta.send = (m) => {
+            sent.push(m.type);
+            return send(m);
+        };
+        const sum = {
+            name: 'sum' as LocalFunctionName,
+            args: [H.stream(H.number), H.callback([], H.none)],
+            returns: H.number,
+            fn: async () => 0,
+        };
+        const aC = createChannel({
+            ...alpha,
+            features: [],
+            publish: [addDefinition, sum],
+        });
+        const bC = createChannel({...beta, batching: true});
+        await handshake(aC, bC);
+
+        sent.length = 0;
+        assert.deepEqual(await Promise.all([bC.add(1, 1), bC.add(2, 2)]), [
+            2,
+            4,
+        ]);
+        assert.deepEqual(sent, ['call', 'call']);
+
+        async function* numbers() {
+            yield 1;
+        }
+        await assertRejects(
+            () => bC.sum(numbers(), () => {}),
+            'call to sum passes streams, which the other side does not support',
+            'UNSUPPORTED_FEATURE'
+        );
+        await assertRejects(
+            () => bC.sum([], () => {}),
+            'call to sum passes callbacks, which the other side does not support',
+            'UNSUPPORTED_FEATURE'
+        );
+    });
+});
+
+describe('discovery', () => {
+    const definitions = {Point: {x: H.number, y: H.number}};
+    const move = {
+        name: 'move' as LocalFunctionName,
+        args: [H.ref('Point'), H.optional(H.number)],
+        returns: H.ref('Point'),
+        fn: async (p: any, d = 1) => ({x: p.x + d, y: p.y}),
+    };
+    const log = {
+        name: 'log' as LocalFunctionName,
+        args: [H.string],
+        returns: H.none,
+        oneway: true as const,
+        fn: () => {},
+    };
+
+    it('lists and describes published functions', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const aC = createChannel({...alpha, definitions});
+        const bC = createChannel(beta);
+        assert.deepEqual(bC.remote.list(), []);
+
+        aC.publish(addDefinition);
+        aC.publish(move);
+        aC.publish(log);
+        await bC.remote.ready('add', 'move', 'log');
+        assert.deepEqual(bC.remote.list(), ['add', 'move', 'log']);
+        assert.deepEqual(bC.remote.describe('move'), {
+            name: 'move',
+            args: move.args,
+            returns: move.returns,
+            definitions,
+        });
+        assert.equal(bC.remote.describe('log')!.oneway, true);
+        assert.equal(bC.remote.describe('missing'), undefined);
+
+        aC.unpublish('move');
+        await handshake(aC, bC);
+        assert.deepEqual(bC.remote.list(), ['add', 'log']);
+    });
+
+    it('fails to wait for functions like calls', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const aC = createChannel(alpha);
+        const bC = createChannel({...beta, timeout: 10});
+        await assertRejects(
+            () => bC.remote.ready('missing'),
+            'call to missing timed out',
+            'TIMEOUT'
+        );
+
+        const ready = aC.remote.ready('missing');
+        aC.close();
+        await assertRejects(() => ready, undefined, 'CONNECTION_CLOSED');
+    });
+
+    it('renders signatures', () => {
+        assert.equal(
+            describeFunction(addDefinition),
+            'add(arg0: number, arg1: number): number'
+        );
+        assert.equal(
+            describeFunction(move),
+            'move(arg0: Point, arg1?: number): Point'
+        );
+        assert.equal(describeFunction(log), 'log(arg0: string): void');
+
+        // only optional args after the last required one may be left out
+        assert.equal(
+            describeFunction({
+                ...addDefinition,
+                args: [H.optional(H.string), H.number, H.optional(H.number)],
+                returns: [H.optional(H.string), H.optional(H.number)],
+            }),
+            'add(arg0: string | undefined, arg1: number, arg2?: number): [string?, number?]'
+        );
+    });
+});
+
+describe('middleware', () => {
+    it('wraps calls on both sides in order', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const order: string[] = [];
+        const record = (label: string): Middleware => async (call, next) => {
+            order.push(`${label} ${call.name}(${call.args})`);
+            const result = await next();
+            order.push(`${label} ${result}`);
+            return result;
+        };
+        createChannel({
+            ...alpha,
+            publish: [addDefinition],
+            incoming: [record('in')],
+        });
+        const bC = createChannel({
+            ...beta,
+            outgoing: [record('out1'), record('out2')],
+        });
+
+        assert.equal(await bC.add(1, 2), 3);
+        assert.deepEqual(order, [
+            'out1 add(1,2)',
+            'out2 add(1,2)',
+            'in add(1,2)',
+            'in 3',
+            'out2 3',
+            'out1 3',
+        ]);
+    });
+
+    it('short-circuits and transforms calls', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const sent: string[] = [];
+        const send = beta.send;
+        beta.send = (m) => {
+            sent.push(m.type);
+            return send(m);
+        };
+
+        const cache: {[key: string]: any} = {};
+        const caching: Middleware = async (call, next) => {
+            const key = JSON.stringify([call.name, call.args]);
+            if (!cache.hasOwnProperty(key)) cache[key] = await next();
+            return cache[key];
+        };
+        const authorizing: Middleware = async (call, next) => {
+            if (call.args.some((a) => a < 0)) {
+                throw new ApplicationError('negative numbers', {
+                    name: call.name,
+                });
+            }
+            return next();
+        };
+        const doubling: Middleware = async (call, next) => {
+            call.args = call.args.map((a) => a * 2);
+            return (await next()) + 1;
+        };
+
+        const aC = createChannel({
+            ...alpha,
+            publish: [addDefinition],
+            incoming: [authorizing, doubling],
+        });
+        const bC = createChannel({...beta, outgoing: [caching]});
+        await handshake(aC, bC);
+
+        sent.length = 0;
+        assert.equal(await bC.add(1, 2), 7);
+        assert.equal(await bC.add(1, 2), 7);
+        assert.deepEqual(sent, ['call']);
+
+        const e = await assertRejects(
+            () => bC.add(-1, 2),
+            'negative numbers',
+            'APPLICATION_ERROR'
+        );
+        assert.deepEqual(e.data, {name: 'add'});
+    });
+
+    it('retries calls', async () => {
+        let failures = 1;
+        const flaky = {
+            ...addDefinition,
+            fn(a: number, b: number) {
+                if (failures-- > 0) throw new Error('try again');
+                return a + b;
+            },
+        };
+        const retrying: Middleware = async (_, next) => {
+            try {
+                return await next();
+            } catch (e) {
+                return next();
+            }
+        };
+        const {alpha, beta} = createTestObjectChannel(false);
+        createChannel({...alpha, publish: [flaky]});
+        const bC = createChannel({...beta, outgoing: [retrying]});
+        assert.equal(await bC.add(1, 2), 3);
+    });
+
+    it('wraps notifications', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const logged: string[] = [];
+        const calls: CallInfo[] = [];
+        const redacting: Middleware = async (call, next) => {
+            calls.push(call);
+            call.args = call.args.map(() => '***');
+            return next();
+        };
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    name: 'log' as LocalFunctionName,
+                    args: [H.string],
+                    returns: H.none,
+                    fn: (message: string) => {
+                        logged.push(message);
+                    },
+                },
+            ],
+            incoming: [redacting],
+        });
+        const bC = createChannel(beta);
+        await bC.notify.log('secret');
+        for (let i = 0; i < 5; i++) await preempt();
+
+        assert.deepEqual(logged, ['***']);
+        assert.equal(calls[0].oneway, true);
+        assert.equal(calls[0].name, 'log');
+    });
+});
+
+describe('metadata', () => {
+    it('sends metadata with calls and results', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        let context: CallContext | undefined;
+        createChannel({
+            ...alpha,
+            info: {worker: 1},
+            publish: [
+                {
+                    ...addDefinition,
+                    fn(this: CallContext, a: number, b: number) {
+                        context = this;
+                        this.resultMetadata.served = 'alpha';
+                        return a + b;
+                    },
+                },
+            ],
+        });
+        let resultMetadata: Metadata | undefined;
+        const bC = createChannel({
+            ...beta,
+            info: {worker: 2},
+            metadata: {user: 'ada'},
+            outgoing: [
+                async (call, next) => {
+                    const result = await next();
+                    resultMetadata = call.resultMetadata;
+                    return result;
+                },
+            ],
+        });
+
+        const before = Date.now();
+        const sum = await bC
+            .withOptions({metadata: {request: 7}, timeout: 1000})
+            .add(1, 2);
+        assert.equal(sum, 3);
+        assert.deepEqual(context!.metadata, {user: 'ada', request: 7});
+        assert.deepEqual(context!.peer.info, {worker: 2});
+        assert(context!.deadline! >= before + 900);
+        assert(context!.deadline! <= Date.now() + 1000);
+        assert.deepEqual(resultMetadata, {served: 'alpha'});
+    });
+
+    it('propagates traceparents', async () => {
+        const parent =
+            '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+        assert.deepEqual(parseTraceparent(parent), {
+            version: '00',
+            traceId: '0af7651916cd43dd8448eb211c80319c',
+            parentId: 'b7ad6b7169203331',
+            flags: '01',
+        });
+        assert.equal(
+            parseTraceparent(
+                '00-00000000000000000000000000000000-b7ad6b7169203331-01'
+            ),
+            undefined
+        );
+        assert.equal(parseTraceparent('not a traceparent'), undefined);
+
+        const child = parseTraceparent(childTraceparent(parent))!;
+        assert.equal(child.traceId, '0af7651916cd43dd8448eb211c80319c');
+        assert.notEqual(child.parentId, 'b7ad6b7169203331');
+        assert(parseTraceparent(childTraceparent()));
+
+        // without a global crypto, e.g. node 18 and earlier
+        const crypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+        Object.defineProperty(globalThis, 'crypto', {
+            value: undefined,
+            configurable: true,
+        });
+        try {
+            assert(parseTraceparent(childTraceparent()));
+        } finally {
+            if (crypto) Object.defineProperty(globalThis, 'crypto', crypto);
+        }
+
+        const {alpha, beta} = createTestObjectChannel(false);
+        let received: string | undefined;
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    ...addDefinition,
+                    fn(this: CallContext, a: number, b: number) {
+                        received = this.metadata.traceparent;
+                        return a + b;
+                    },
+                },
+            ],
+        });
+        const bC = createChannel({
+            ...beta,
+            outgoing: [traceCalls(() => parent)],
+        });
+        await bC.add(1, 2);
+        assert.equal(
+            parseTraceparent(received)!.traceId,
+            '0af7651916cd43dd8448eb211c80319c'
+        );
+    });
+});
+
+describe('limits', () => {
+    it('queues calls beyond the concurrency', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        let running = 0;
+        let most = 0;
+        let release = () => {};
+        const gate = new Promise<void>((r) => (release = r));
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    ...addDefinition,
+                    limits: {concurrency: 1, queue: 1},
+                    async fn(a: number, b: number) {
+                        running++;
+                        most = Math.max(most, running);
+                        await gate;
+                        running--;
+                        return a + b;
+                    },
+                },
+            ],
+        });
+        const bC = createChannel(beta);
+
+        const first = bC.add(1, 2);
+        const second = bC.add(3, 4);
+        await assertRejects(
+            () => bC.add(5, 6),
+            'too many calls to add',
+            'OVERLOADED'
+        );
+        release();
+        assert.deepEqual(await Promise.all([first, second]), [3, 7]);
+        assert.equal(most, 1);
+    });
+
+    it('keeps the limits of streamed results until they end', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        let running = 0;
+        let most = 0;
+        let release = () => {};
+        const gate = new Promise<void>((r) => (release = r));
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    name: 'count' as LocalFunctionName,
+                    args: [H.number],
+                    returns: H.stream(H.number),
+                    limits: {concurrency: 1, queue: 1},
+                    async *fn(n: number) {
+                        running++;
+                        most = Math.max(most, running);
+                        try {
+                            for (let i = 0; i < n; i++) yield i;
+                            await gate;
+                        } finally {
+                            running--;
+                        }
+                    },
+                },
+            ],
+        });
+        const bC = createChannel(beta);
+
+        const first = await bC.count(3);
+        let started = false;
+        const second = bC.count(2).then((s: AsyncIterable<number>) => {
+            started = true;
+            return s;
+        });
+        await new Promise((r) => setTimeout(r, 10));
+        assert(!started);
+        release();
+
+        const items = [];
+        for await (const item of first) items.push(item);
+        for await (const item of await second) items.push(item);
+        assert.deepEqual(items, [0, 1, 2, 0, 1]);
+        assert.equal(most, 1);
+    });
+
+    it('limits the rate of calls', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        createChannel({
+            ...alpha,
+            publish: [addDefinition],
+            limits: {rate: {rate: 1, burst: 2}},
+        });
+        const bC = createChannel(beta);
+
+        assert.equal(await bC.add(1, 2), 3);
+        assert.equal(await bC.add(3, 4), 7);
+        const e = await assertRejects(
+            () => bC.add(5, 6),
+            'rate limit of add exceeded',
+            'OVERLOADED'
+        );
+        assert(e instanceof OverloadedError);
+    });
+
+    it('limits calls in flight', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        let release = () => {};
+        createChannel({
+            ...alpha,
+            publish: [
+                {
+                    ...addDefinition,
+                    async fn(a: number, b: number) {
+                        await new Promise<void>((r) => (release = r));
+                        return a + b;
+                    },
+                },
+            ],
+        });
+        const bC = createChannel({...beta, limits: {inFlight: 1}});
+
+        const first = bC.add(1, 2);
+        await assertRejects(
+            () => bC.add(3, 4),
+            'call to add with 1 calls in flight',
+            'OVERLOADED'
+        );
+        await handshake(bC);
+        release();
+        assert.equal(await first, 3);
+
+        // the call which ended is no longer in flight
+        const second = bC.add(5, 6);
+        await handshake(bC);
+        release();
+        assert.equal(await second, 11);
+    });
+});
+
+describe('security', () => {
+    it('authenticates the other side before exposing functions', async () => {
+        const serve = () => {
+            const {alpha, beta} = createTestObjectChannel(false);
+            createChannel({
+                ...alpha,
+                authenticate: async (credentials) =>
+                    credentials === 'secret' ? {user: 'ann'} : undefined,
+                publish: [
+                    {
+                        name: 'whoami' as LocalFunctionName,
+                        args: [],
+                        returns: H.string,
+                        fn(this: CallContext) {
+                            return this.peer.identity.user;
+                        },
+                    },
+                ],
+            });
+            return beta;
+        };
+
+        const client = createChannel({...serve(), credentials: 'secret'});
+        assert.equal(await client.whoami(), 'ann');
+
+        const refused = createChannel({...serve(), credentials: 'wrong'});
+        assert.equal(await refused.closed, 'authentication failed');
+        assert.deepEqual(refused.remote.list(), []);
+    });
+
+    it('authorizes calls with the identity of the other side', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        createChannel({
+            ...alpha,
+            authenticate: (credentials) => credentials,
+            publish: [
+                {
+                    name: 'drop' as LocalFunctionName,
+                    args: [H.string],
+                    returns: H.boolean,
+                    authorize(this: CallContext, table: string) {
+                        return this.peer.identity.admin || table === 'scratch';
+                    },
+                    fn: async () => true,
+                },
+            ],
+        });
+        const client = createChannel({...beta, credentials: {admin: false}});
+
+        assert.equal(await client.drop('scratch'), true);
+        await assertRejects(
+            () => client.drop('users'),
+            'call to drop is not authorized',
+            'UNAUTHORIZED'
+        );
+    });
+
+    it('limits the nesting and length of messages', async () => {
+        const sum = {
+            name: 'sum' as LocalFunctionName,
+            args: [H.array(H.number)],
+            returns: H.number,
+            fn: async (xs: number[]) => xs.reduce((a, b) => a + b, 0),
+        };
+        const {alpha, beta} = createTestObjectChannel(false);
+        createChannel({
+            ...alpha,
+            messageLimits: {arrayLength: 20},
+            publish: [sum],
+        });
+        const client = createChannel(beta);
+        assert.equal(await client.sum([1, 2, 3]), 6);
+        await assertRejects(
+            () => client.sum(Array.from({length: 21}, () => 1)),
+            undefined,
+            'CONNECTION_CLOSED'
+        );
+        assert.equal(
+            await client.closed,
+            'message has an array longer than 20'
+        );
+
+        // nesting is measured without recursion
+        let deep: any = [];
+        for (let i = 0; i < 100000; i++) deep = [deep];
+        assert.equal(
+            checkMessage(deep, {}),
+            'message is nested deeper than 100'
+        );
+        assert.equal(checkMessage({a: [[1]]}, {depth: 3}), undefined);
+    });
+
+    it('refuses functions published with invalid patterns', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const client = createChannel(beta);
+        const call = client.echo('x');
+
+        await alpha.send({
+            type: 'hello',
+            protocol: PROTOCOL_VERSION,
+            features: [],
+            codecs: [],
+        });
+        await alpha.send({
+            type: 'publish',
+            name: 'echo',
+            args: [H.string],
+            returns: {$c: 10, $p: '('},
+        });
+        await assertRejects(
+            () => call,
+            'echo is published with an invalid pattern /(/',
+            'INCOMPATIBLE_FUNCTION'
+        );
+        assert.deepEqual(client.remote.list(), []);
+
+        // no value conforms to an invalid pattern
+        const invalid: Sendable = {$c: 10, $p: '('};
+        assert.equal(validate('(', invalid).length, 1);
+        assert.equal(compileValidator(invalid)('(').length, 1);
+    });
+
+    it('keeps names like __proto__ as plain keys', async () => {
+        const {alpha, beta} = createTestChannel(false);
+        for (const name of ['__proto__', 'hasOwnProperty', 'constructor']) {
+            alpha.publish({
+                name: name as LocalFunctionName,
+                args: [],
+                returns: H.string,
+                fn: async () => name,
+            });
+        }
+        alpha.publish({
+            name: 'admin' as LocalFunctionName,
+            args: [H.open({name: H.string})],
+            returns: H.boolean,
+            fn: async (value: any) =>
+                Object.getPrototypeOf(value) === Object.prototype &&
+                value.admin === undefined,
+        });
+        alpha.publish({
+            name: 'user' as LocalFunctionName,
+            args: [{name: H.string}],
+            returns: H.none,
+            fn: async () => null,
+        });
+
+        const remote = beta as any;
+        assert.equal(await remote.__proto__(), '__proto__');
+        assert.equal(await remote.hasOwnProperty(), 'hasOwnProperty');
+        assert.equal(await remote.constructor(), 'constructor');
+
+        const user = JSON.parse('{"name": "a", "__proto__": {"admin": true}}');
+        assert.equal(await remote.admin(user), true);
+        await assertRejects(
+            () => remote.user(user),
+            'Invalid Arguments: args[0].__proto__ is unexpected',
+            'INVALID_ARGUMENTS'
+        );
+    });
+});
+
+describe('server', () => {
+    type State = {user: string; calls: number};
+
+    function createServer() {
+        const events: string[] = [];
+        const server = createRpcServer<any, State>({
+            publish: [
+                {
+                    name: 'whoami' as LocalFunctionName,
+                    args: [],
+                    returns: H.string,
+                    fn(this: ServerCallContext<State>) {
+                        this.connection.state.calls++;
+                        return this.connection.state.user;
+                    },
+                },
+            ],
+            namespaces: {admin: [addDefinition]},
+            state: () => ({user: 'guest', calls: 0}),
+            onConnect: (c) => events.push(`connect ${c.id}`),
+            onDisconnect: (c, reason) =>
+                events.push(`disconnect ${c.id} ${reason}`),
+        });
+        return {server, events};
+    }
+
+    // a client which publishes status, and a function to close its transport
+    function connectClient(server: any, options: any, status: number) {
+        const {alpha, beta} = createTestObjectChannel(false);
+        const connection = server.connect(alpha, options);
+        const channel = createChannel({
+            ...beta,
+            publish: [
+                {
+                    name: 'status' as LocalFunctionName,
+                    args: [H.string],
+                    returns: H.number,
+                    fn: (prefix: string) => {
+                        if (status < 0) throw new Error(prefix + ' failed');
+                        return status;
+                    },
+                },
+            ],
+        });
+        return {connection, channel, drop: () => alpha.c()};
+    }
+
+    it('publishes functions and namespaces on each connection', async () => {
+        const {server, events} = createServer();
+        const admin = connectClient(
+            server,
+            {state: {user: 'ada', calls: 0}},
+            1
+        );
+        const guest = connectClient(server, {namespaces: []}, 2);
+
+        assert.equal(await admin.channel.whoami(), 'ada');
+        assert.equal(await guest.channel.whoami(), 'guest');
+        assert.equal(await admin.channel['admin.add'](1, 2), 3);
+        assert.equal(admin.connection.state.calls, 1);
+        await admin.channel.remote.ready('whoami');
+        assert.deepEqual(guest.channel.remote.list(), ['whoami']);
+        assert.throws(
+            () =>
+                server.connect(createTestObjectChannel(false).alpha, {
+                    namespaces: ['x'],
+                }),
+            /no namespace called x/
+        );
+
+        assert.deepEqual(
+            server.connections().map((c) => c.id),
+            [admin.connection.id, guest.connection.id]
+        );
+        await guest.drop();
+        assert.deepEqual(server.connections(), [admin.connection]);
+        server.close('shutdown');
+        assert.equal(await admin.channel.closed, 'shutdown');
+        assert.deepEqual(events, [
+            `connect ${admin.connection.id}`,
+            `connect ${guest.connection.id}`,
+            `disconnect ${guest.connection.id} undefined`,
+            `disconnect ${admin.connection.id} shutdown`,
+        ]);
+    });
+
+    it('calls every connection', async () => {
+        const {server} = createServer();
+        const clients = [1, 2, -1].map((s) => connectClient(server, {}, s));
+        await handshake(...clients.map((c) => c.channel));
+
+        const results = await server.callAll('status', ['check']);
+        assert.deepEqual(
+            results.map((r) => ('error' in r ? r.error.message : r.value)),
+            [1, 2, 'check failed']
+        );
+        assert.equal(results[2].connection, clients[2].connection);
+
+        const first = await server.callAll('status', ['check'], {
+            filter: (c) => c.id === clients[0].connection.id,
+        });
+        assert.deepEqual(
+            first.map((r) => ('value' in r ? r.value : r.error)),
+            [1]
+        );
+    });
+
+    it('broadcasts notifications and events', async () => {
+        const {server} = createServer();
+        const received: string[] = [];
+        const clients = [1, 2].map((s) => connectClient(server, {}, s));
+        clients[0].channel.on('news', H.string, (n) => received.push(`0 ${n}`));
+        clients[1].channel.on('news', H.string, (n) => received.push(`1 ${n}`));
+        await handshake(clients[0].channel, clients[1].channel);
+
+        assert.equal(server.emit('news', 'hello'), 2);
+        assert.equal(
+            server.emit('news', 'first', (c) => c === clients[0].connection),
+            1
+        );
+        assert.equal(server.broadcast('status', ['all']), 2);
+        await handshake(clients[0].channel, clients[1].channel);
+        assert.deepEqual(received, ['0 hello', '1 hello', '0 first']);
+    });
+    it('only broadcasts to connections which publish the function', async () => {
+        const {server} = createServer();
+        const client = connectClient(server, {}, 1);
+        const {alpha, beta} = createTestObjectChannel(false);
+        const sent: string[] = [];
+        const send = alpha.send;
+        alpha.send = (m) => {
+            sent.push(m.type);
+            return send(m);
+        };
+        server.connect(alpha);
+        const silent = createChannel(beta);
+        await handshake(client.channel, silent);
+
+        for (let i = 0; i < 1000; i++) {
+            assert.equal(server.broadcast('status', ['all']), 1);
+        }
+        await handshake(client.channel, silent);
+        assert(!sent.includes('expect'));
+        assert(!sent.includes('notify'));
+    });
+
+    it('reports connections which do not publish the function', async () => {
+        const {server} = createServer();
+        const client = connectClient(server, {}, 1);
+        const {alpha, beta} = createTestObjectChannel(false);
+        const connection = server.connect(alpha);
+        const silent = createChannel(beta);
+        await handshake(client.channel, silent);
+
+        const results = await server.callAll('status', ['check']);
+        assert.equal(results.length, 2);
+        assert.deepEqual(results[0], {connection: client.connection, value: 1});
+        const {error} = results[1] as any;
+        assert.equal(results[1].connection, connection);
+        assert(error instanceof UnpublishedFunctionError);
+        assert.equal(error.message, 'Unpublished Function: status');
+    });
+});
+
+describe('schemas', () => {
+    const definitions: Definitions = {
+        Tree: {
+            label: H.stringWith({minLength: 1}),
+            children: H.array(H.ref('Tree')),
+            weight: H.optional(H.nullable(H.integer)),
+        },
+    };
+    const move = {
+        name: 'move' as LocalFunctionName,
+        args: [H.ref('Tree'), H.optional(H.enum('up', 'down'))],
+        returns: [H.boolean, H.date],
+        fn: () => [true, new Date()],
+    };
+    const log = {
+        name: 'log' as LocalFunctionName,
+        args: [H.open({level: H.number})],
+        returns: H.none,
+        oneway: true,
+        fn: () => null,
+    };
+
+    it('converts Sendables to JSON Schema and back', () => {
+        const schema = toJSONSchema(H.ref('Tree'), definitions);
+        assert.deepEqual(schema, {
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            $ref: '#/$defs/Tree',
+            $defs: {
+                Tree: {
+                    type: 'object',
+                    properties: {
+                        label: {type: 'string', minLength: 1},
+                        children: {
+                            type: 'array',
+                            items: {$ref: '#/$defs/Tree'},
+                        },
+                        weight: {anyOf: [{type: 'integer'}, {type: 'null'}]},
+                    },
+                    required: ['label', 'children'],
+                    additionalProperties: false,
+                },
+            },
+        });
+        assert.deepEqual(fromJSONSchema(schema), {
+            type: H.ref('Tree'),
+            definitions,
+        });
+
+        const rich = [H.date, H.map(H.string, H.bigint), H.stream(H.number)];
+        assert.deepEqual(fromJSONSchema(toJSONSchema(rich)).type, rich);
+        const pair = [H.string, H.optional(H.number)];
+        assert.deepEqual(fromJSONSchema(toJSONSchema(pair)).type, pair);
+    });
+
+    it('describes values as they are sent', () => {
+        const {$schema, ...date} = toJSONSchema(H.date);
+        assert.deepEqual(date, {
+            type: 'object',
+            properties: {$lw: {const: 'date'}, v: {type: 'number'}},
+            required: ['$lw', 'v'],
+            additionalProperties: false,
+            'x-lwrpc': H.date,
+        });
+
+        // optional elements of a fixed array may be undefined or left out
+        const pair = toJSONSchema([H.string, H.optional(H.number)]);
+        assert.equal(pair.minItems, 1);
+        assert.equal(pair.maxItems, 2);
+        assert.deepEqual(pair.prefixItems[1].anyOf[1].properties.$lw, {
+            const: 'undefined',
+        });
+    });
+
+    it('describes functions as OpenRPC and typescript', () => {
+        const doc = toOpenRPC([move, log], {
+            title: 'trees',
+            version: '1.0.0',
+            definitions,
+        });
+        assert.deepEqual(Object.keys(doc.components!.schemas), ['Tree']);
+        assert.deepEqual(doc.methods[0].params[1], {
+            name: 'arg1',
+            required: false,
+            schema: {enum: ['up', 'down']},
+        });
+        assert.equal(doc.methods[1].result, undefined);
+
+        assert.equal(
+            toTypeScript([move, log], {name: 'TreeService', definitions}),
+            [
+                'export type Tree = {label: string; children: Tree[]; weight?: number | null};',
+                '',
+                'export interface TreeService {',
+                '    move(arg0: Tree, arg1?: "up" | "down"): Promise<[boolean, Date]>;',
+                '    log(arg0: {level: number; [key: string]: unknown}): Promise<void>;',
+                '}',
+                '',
+            ].join('\n')
+        );
+
+        // describeSendable renders the types of toTypeScript
+        const short = H.array(H.stringWith({maxLength: 3}));
+        assert.equal(describeSendable(short), '(string length <= 3)[]');
+        assert.equal(describeSendable(short, {typescript: true}), 'string[]');
+    });
+
+    it('imports a subset of JSON Schema', () => {
+        const {type, definitions: imported} = fromJSONSchema({
+            type: 'object',
+            properties: {
+                id: {type: 'integer', minimum: 1},
+                tags: {type: 'array', items: {type: 'string'}},
+                owner: {$ref: '#/definitions/User'},
+            },
+            required: ['id'],
+            definitions: {
+                User: {type: ['string', 'null'], maxLength: 20},
+            },
+        });
+        assert.deepEqual(
+            type,
+            H.open({
+                id: H.numberWith({min: 1, integer: true}),
+                tags: H.optional(H.array(H.string)),
+                owner: H.optional(H.ref('User')),
+            })
+        );
+        assert.deepEqual(imported, {
+            User: H.union(H.stringWith({maxLength: 20}), H.none),
+        });
+
+        assert.throws(
+            () => fromJSONSchema({allOf: [{type: 'string'}]}),
+            /JSON Schema at #: allOf/
+        );
+        assert.throws(
+            () =>
+                fromJSONSchema({
+                    type: 'object',
+                    properties: {a: {type: 'array'}},
+                }),
+            /at #\/properties\/a: array without items/
+        );
+    });
+
+    it('keeps names like __proto__ as plain keys', () => {
+        const schema = JSON.parse(`{
+            "type": "object",
+            "properties": {
+                "__proto__": {"$ref": "#/$defs/__proto__"},
+                "a": {"type": "number"}
+            },
+            "required": ["__proto__", "a"],
+            "additionalProperties": false,
+            "$defs": {"__proto__": {"type": "string"}}
+        }`);
+        const {type, definitions: imported} = fromJSONSchema(schema);
+        assert.deepEqual(Object.keys(type), ['__proto__', 'a']);
+        assert.equal(Object.getPrototypeOf(type), Object.prototype);
+        assert.deepEqual(Object.keys(imported), ['__proto__']);
+        assert.deepEqual(
+            validate(JSON.parse('{"__proto__": "b", "a": 1}'), type, 'value', {
+                definitions: imported,
+            }),
+            []
+        );
+
+        const exported = toJSONSchema(type, imported);
+        assert.deepEqual(Object.keys(exported.properties), ['__proto__', 'a']);
+        assert.deepEqual(Object.keys(exported.$defs), ['__proto__']);
+        assert.deepEqual(fromJSONSchema(exported), {
+            type,
+            definitions: imported,
+        });
+    });
+});
+
+describe('compatibility', () => {
+    it('reports narrowing and widening', () => {
+        const longer = isCompatible(H.stringWith({maxLength: 10}), H.string);
+        assert.deepEqual(longer.narrowed, []);
+        assert.deepEqual(
+            longer.widened.map((i) => i.message),
+            ['value is string, which does not fit string length <= 10']
+        );
+        assert(longer.safeForArgs && !longer.safeForReturns);
+
+        const added = isCompatible(
+            {name: H.string},
+            {name: H.string, age: H.optional(H.integer)}
+        );
+        assert.deepEqual(added.narrowed, []);
+        assert.deepEqual(
+            added.widened.map((i) => i.message),
+            ['value.age is unexpected']
+        );
+
+        const removed = isCompatible(
+            [H.number, H.optional(H.nullable(H.string))],
+            [H.number]
+        );
+        assert.deepEqual(
+            removed.narrowed.map((i) => i.path),
+            ['value[1]']
+        );
+        assert.deepEqual(removed.widened, []);
+
+        const tree = {
+            Tree: {label: H.enum('a', 'b'), children: H.array(H.ref('Tree'))},
+        };
+        const same = isCompatible(H.ref('Tree'), H.ref('Tree'), {
+            oldDefinitions: tree,
+            newDefinitions: {
+                Tree: {label: H.string, children: H.array(H.ref('Tree'))},
+            },
+        });
+        assert.deepEqual(same.narrowed, []);
+        assert.deepEqual(
+            same.widened.map((i) => i.path),
+            ['value.label']
+        );
+    });
+
+    it('checks published functions against contracts', () => {
+        const contract = {
+            name: 'greet',
+            args: [H.string],
+            returns: H.string,
+        };
+        assert.deepEqual(
+            checkContract(contract, {
+                ...contract,
+                args: [H.union(H.string, H.number), H.optional(H.boolean)],
+                returns: H.stringWith({maxLength: 20}),
+            }),
+            []
+        );
+        assert.deepEqual(
+            checkContract(contract, {
+                ...contract,
+                args: [H.stringWith({maxLength: 5})],
+                returns: H.nullable(H.string),
+                oneway: true,
+            }).map((i) => i.path),
+            ['args[0]', 'returns']
+        );
+    });
+
+    it('warns about or rejects functions which break contracts', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+        createChannel({
+            ...alpha,
+            publish: [
+                {...addDefinition, returns: H.nullable(H.number)},
+                {
+                    ...addDefinition,
+                    name: 'sub' as LocalFunctionName,
+                    fn: (a: number, b: number) => a - b,
+                },
+            ],
+        });
+        const bC = createChannel({
+            ...beta,
+            contracts: {
+                functions: [addDefinition, {...addDefinition, name: 'sub'}],
+                mismatch: 'reject',
+            },
+        });
+
+        assert.equal(await bC.sub(3, 1), 2);
+        const e = await assertRejects(
+            () => bC.add(1, 2),
+            'add does not match its contract: returns is null, which does not fit number',
+            'INCOMPATIBLE_FUNCTION'
+        );
+        assert.equal(e.data.issues[0].path, 'returns');
+
+        const warnings: any[] = [];
+        const warn = console.warn;
+        console.warn = (...args: any[]) => warnings.push(args);
+        try {
+            const other = createTestObjectChannel(false);
+            createChannel({...other.alpha, publish: [addDefinition]});
+            const cC = createChannel({
+                ...other.beta,
+                contracts: {
+                    functions: [{...addDefinition, args: [H.number]}],
+                },
+            });
+            assert.equal(await cC.add(1, 2), 3);
+            assert.deepEqual(warnings, [
+                ['add does not match its contract: args[1] may be missing'],
+            ]);
+        } finally {
+            console.warn = warn;
+        }
+
+        // reported with onMismatch instead
+        const reported: string[] = [];
+        const third = createTestObjectChannel(false);
+        createChannel({...third.alpha, publish: [addDefinition]});
+        const dC = createChannel({
+            ...third.beta,
+            contracts: {
+                functions: [{...addDefinition, args: [H.number]}],
+                onMismatch: (_, issues) =>
+                    reported.push(...issues.map((i) => i.path)),
+            },
+        });
+        assert.equal(await dC.add(1, 2), 3);
+        assert.deepEqual(reported, ['args[1]']);
+    });
+});
+
+describe('transports', () => {
+    // a minimal node event emitter
+    function createEmitter() {
+        const listeners: {[key: string]: ((...args: any[]) => void)[]} = {};
+        return {
+            on(event: string, listener: (...args: any[]) => void) {
+                listeners[event] = [...(listeners[event] || []), listener];
+            },
+            emit(event: string, ...args: any[]) {
+                for (const l of listeners[event] || []) l(...args);
+            },
+        };
+    }
+
+    // calls add over the transports, then closes them
+    async function checkTransports(
+        alpha: Transport,
+        beta: Transport,
+        close: () => void
+    ) {
+        const aC = createChannel(alpha);
+        const never = {
+            name: 'never' as LocalFunctionName,
+            args: [],
+            returns: H.none,
+            fn: () => new Promise(() => {}),
+        };
+        createChannel({...beta, publish: [addDefinition, never]});
+
+        assert.equal(await aC.add(1, 2), 3);
+        const call = aC.never();
+        await preempt();
+        close();
+        await assertRejects(() => call, undefined, 'CONNECTION_CLOSED');
+    }
+
+    it('connects message ports', async () => {
+        const {port1, port2} = new MessageChannel();
+        await checkTransports(
+            messagePortTransport(port1),
+            messagePortTransport(port2),
+            () => port1.close()
+        );
+    });
+
+    it('connects node message ports and workers', async () => {
+        const {port1, port2} = new MessageChannel();
+        await checkTransports(
+            workerTransport(port1 as any),
+            workerTransport(port2 as any),
+            () => port2.close()
+        );
+    });
+
+    it('transfers marked values', async () => {
+        const {port1, port2} = new MessageChannel();
+        const aC = createChannel(messagePortTransport(port1));
+        createChannel({
+            ...messagePortTransport(port2),
+            publish: [
+                {
+                    name: 'invert' as LocalFunctionName,
+                    args: [H.buffer, H.transferable],
+                    returns: H.bytes,
+                    fn(input: ArrayBuffer, port: MessagePort) {
+                        const output = new Uint8Array(input).map(
+                            (b) => 255 - b
+                        );
+                        port.postMessage('inverted');
+                        port.close();
+                        return transfer(output);
+                    },
+                },
+            ],
+        });
+
+        const buffer = new Uint8Array([0, 1, 255]).buffer;
+        const progress = new MessageChannel();
+        const received = new Promise((resolve) =>
+            progress.port1.addEventListener('message', (e: any) =>
+                resolve(e.data)
+            )
+        );
+        progress.port1.start();
+
+        const bytes = await aC.invert(
+            transfer(buffer),
+            transfer(progress.port2)
+        );
+        assert.equal(buffer.byteLength, 0); // detached
+        assert.deepEqual(Array.from(bytes), [255, 254, 0]);
+        assert.equal(await received, 'inverted');
+        assert.equal(validate(progress.port1, H.transferable).length, 0);
+        assert.equal(validate({}, H.transferable).length, 1);
+        progress.port1.close();
+        port1.close();
+    });
+
+    it('connects processes', async () => {
+        const parent = createEmitter();
+        const child = createEmitter();
+        const connect = (from: any, to: any) =>
+            Object.assign(from, {
+                send: (m: any) =>
+                    preempt().then(() =>
+                        to.emit('message', JSON.parse(JSON.stringify(m)))
+                    ),
+            });
+
+        await checkTransports(
+            processTransport(connect(parent, child)),
+            processTransport(connect(child, parent)),
+            () => parent.emit('disconnect')
+        );
+        assert.throws(() => processTransport(createEmitter()), /forked/);
+    });
+
+    for (const framing of ['newline', 'length'] as Framing[]) {
+        it(`frames streams with ${framing} framing`, async () => {
+            const a = createEmitter();
+            const b = createEmitter();
+            // delivers bytes in small chunks, like a socket
+            const writer = (to: any) => ({
+                ...createEmitter(),
+                write(chunk: Uint8Array | string) {
+                    const bytes =
+                        typeof chunk === 'string'
+                            ? new TextEncoder().encode(chunk)
+                            : chunk;
+                    preempt().then(() => {
+                        for (let i = 0; i < bytes.length; i += 3) {
+                            to.emit('data', bytes.slice(i, i + 3));
+                        }
+                    });
+                },
+            });
+
+            await checkTransports(
+                streamTransport(a, writer(b), framing),
+                streamTransport(b, writer(a), framing),
+                () => a.emit('end')
+            );
+        });
+
+        it(`skips ${framing} frames longer than maxSize`, () => {
+            const input = createEmitter();
+            const received: any[] = [];
+            streamTransport(
+                input,
+                createEmitter() as any,
+                framing,
+                20
+            ).registerReceive(async (o) => {
+                received.push(o);
+            });
+            const sender = streamTransport(
+                createEmitter(),
+                {
+                    ...createEmitter(),
+                    write(chunk: Uint8Array | string) {
+                        const bytes =
+                            typeof chunk === 'string'
+                                ? new TextEncoder().encode(chunk)
+                                : chunk;
+                        for (let i = 0; i < bytes.length; i += 3) {
+                            input.emit('data', bytes.slice(i, i + 3));
+                        }
+                    },
+                },
+                framing
+            );
+            sender.send({long: 'a'.repeat(40)});
+            sender.send({short: 1});
+            sender.send({long: 'b'.repeat(40)});
+            sender.send({short: 2});
+            assert.deepEqual(received, [{short: 1}, {short: 2}]);
+        });
+    }
+
+    it('closes channels on malformed frames', async () => {
+        const process = (globalThis as any).process;
+        const rejections: any[] = [];
+        const onRejection = (e: any) => rejections.push(e);
+        process.on('unhandledRejection', onRejection);
+
+        const call = (arg: any) => ({
+            type: 'call',
+            nonce: 1,
+            name: 'x',
+            args: [arg],
+        });
+        try {
+            for (const frame of [
+                null,
+                5,
+                {type: 'batch', messages: 5},
+                {type: 'batch', messages: [[]]},
+                call({$lw: 'bigint', v: 'zz'}),
+                call({$lw: 'map', v: 5}),
+                call({$lw: 'object', v: null}),
+            ]) {
+                const input = createEmitter();
+                const channel = createChannel(
+                    streamTransport(input, {...createEmitter(), write() {}})
+                );
+                for (const m of [
+                    {
+                        type: 'hello',
+                        protocol: PROTOCOL_VERSION,
+                        features: ['batching'],
+                        codecs: ['bigint', 'map'],
+                    },
+                    frame,
+                ]) {
+                    input.emit('data', JSON.stringify(m) + '\n');
+                }
+                assert.equal(await channel.closed, 'malformed message');
+            }
+            await new Promise((r) => setTimeout(r, 10));
+            assert.deepEqual(rejections, []);
+        } finally {
+            process.off('unhandledRejection', onRejection);
+        }
+    });
+});
+
+describe('web sockets', () => {
+    type FakeSocket = {
+        readyState: number;
+        peer: FakeSocket;
+        open: () => void;
+        send: (data: any) => void;
+        close: () => void;
+        addEventListener: (type: string, listener: (e: any) => void) => void;
+        dispatch: (type: string, event: any) => void;
+    };
+
+    // connected sockets which deliver frames like a browser, as event.data
+    function createSockets(): [FakeSocket, FakeSocket] {
+        const create = (): FakeSocket => {
+            const listeners: {[key: string]: ((e: any) => void)[]} = {};
+            const socket: FakeSocket = {
+                readyState: 0,
+                peer: undefined as any,
+                open() {
+                    socket.readyState = 1;
+                    socket.dispatch('open', {});
+                },
+                send(data) {
+                    preempt().then(() =>
+                        socket.peer.dispatch('message', {data})
+                    );
+                },
+                close() {
+                    if (socket.readyState === 3) return;
+                    socket.readyState = 3;
+                    socket.peer.close();
+                    preempt().then(() => socket.dispatch('close', {}));
+                },
+                addEventListener(type, listener) {
+                    listeners[type] = [...(listeners[type] || []), listener];
+                },
+                dispatch(type, event) {
+                    for (const l of listeners[type] || []) l(event);
+                },
+            };
+            return socket;
+        };
+        const a = create();
+        const b = create();
+        a.peer = b;
+        b.peer = a;
+        return [a, b];
+    }
+
+    it('waits for the socket to open and decodes event.data', async () => {
+        const [client, server] = createSockets();
+        server.readyState = 1;
+        createChannel({
+            ...webSocketTransport(server as any),
+            publish: [addDefinition],
+        });
+
+        const connecting = createWebSocketChannel(client as any, []);
+        await preempt();
+        client.open();
+        const channel = await connecting;
+        assert.equal(await channel.add(1, 2), 3);
+
+        client.close();
+        await assertRejects(
+            () => createWebSocketChannel(client as any, []),
+            'web socket already closed'
+        );
+    });
+
+    it('sends and receives binary frames', async () => {
+        const [client, server] = createSockets();
+        client.readyState = server.readyState = 1;
+        const frames: any[] = [];
+        const send = client.send;
+        client.send = (data) => {
+            frames.push(data);
+            send(data);
+        };
+        createChannel({
+            ...webSocketTransport(server as any),
+            publish: [addDefinition],
+        });
+        const channel = await createWebSocketChannel(client as any, [], {
+            binary: true,
+        });
+
+        assert.equal(await channel.add(1, 2), 3);
+        assert(frames.length > 0);
+        assert(frames.every((f) => f instanceof Uint8Array));
+
+        // blobs, and frames which are not JSON
+        const encode = (m: any) => new TextEncoder().encode(JSON.stringify(m));
+        const call = {type: 'call', nonce: 100, name: 'add', args: [2, 2]};
+        const sent = new Promise((r) => (server.send = r));
+        server.dispatch('message', {data: encode({type: 'hello'}).slice(1)});
+        server.dispatch('message', {
+            // node 16 has no global Blob
+            data:
+                typeof Blob === 'undefined'
+                    ? encode(call)
+                    : new Blob([encode(call)]),
+        });
+        assert.deepEqual(JSON.parse((await sent) as string), {
+            type: 'result',
+            nonce: 100,
+            value: 4,
+        });
+    });
+
+    // a server which accepts connections until it refuses them
+    // it publishes add, and echo which only answers after the first connection
+    function createServer() {
+        const sockets: FakeSocket[] = [];
+        const channels: any[] = [];
+        let refused = false;
+        const connect = () => {
+            if (refused) throw new Error('refused');
+            const [client, server] = createSockets();
+            server.readyState = 1;
+            sockets.push(server);
+            const first = sockets.length === 1;
+            const echo = {
+                name: 'echo' as LocalFunctionName,
+                args: [H.number],
+                returns: H.number,
+                fn: (n: number) =>
+                    first ? new Promise<number>(() => {}) : Promise.resolve(n),
+            };
+            channels.push(
+                createChannel({
+                    ...webSocketTransport(server as any),
+                    publish: [addDefinition, echo],
+                })
+            );
+            preempt().then(() => client.open());
+            return client as any;
+        };
+        return {
+            connect,
+            drop: () => sockets[sockets.length - 1].close(),
+            refuse: () => (refused = true),
+            channels,
+        };
+    }
+
+    const doubleDefinition = {
+        name: 'double' as LocalFunctionName,
+        args: [H.number],
+        returns: H.number,
+        fn: async (n: number) => n * 2,
+    };
+
+    const waitFor = async (condition: () => boolean) => {
+        while (!condition()) await new Promise((r) => setTimeout(r, 1));
+    };
+
+    it('reconnects and publishes again', async () => {
+        const server = createServer();
+        const states: ConnectionState[] = [];
+        const {
+            channel,
+            close,
+            state,
+        } = createReconnectingWebSocketChannel(
+            server.connect,
+            [doubleDefinition],
+            {backoff: {initial: 1}, onStateChange: (s) => states.push(s)}
+        );
+        let opened = 0;
+        channel.onOpen(() => opened++);
+
+        assert.equal(await channel.add(1, 2), 3);
+        assert.equal(await server.channels[0].double(2), 4);
+        assert.equal(state(), 'open');
+
+        server.drop();
+        await waitFor(() => server.channels.length === 2);
+        assert.equal(await channel.add(2, 2), 4);
+        assert.equal(await server.channels[1].double(3), 6);
+        assert.deepEqual(states, [
+            'connecting',
+            'open',
+            'disconnected',
+            'connecting',
+            'open',
+        ]);
+        assert.equal(opened, 2);
+
+        close('bye');
+        assert.equal(state(), 'closed');
+        assert.equal(await server.channels[1].closed, 'bye');
+    });
+
+    it('replays idempotent calls after reconnecting', async () => {
+        const server = createServer();
+        const {channel, close} = createReconnectingWebSocketChannel(
+            server.connect,
+            [],
+            {
+                backoff: {initial: 1},
+            }
+        );
+        await channel.add(0, 0);
+
+        const replayed = channel.withOptions({idempotent: true}).echo(1);
+        const lost = channel.echo(2);
+        await preempt();
+        server.drop();
+        await assertRejects(() => lost, undefined, 'CONNECTION_CLOSED');
+        assert.equal(await replayed, 1);
+        close();
+    });
+
+    it('closes after the retries', async () => {
+        const server = createServer();
+        server.refuse();
+        const states: ConnectionState[] = [];
+        const {state} = createReconnectingWebSocketChannel(server.connect, [], {
+            backoff: {initial: 1},
+            retries: 2,
+            onStateChange: (s) => states.push(s),
+        });
+
+        await waitFor(() => state() === 'closed');
+        assert.deepEqual(states, [
+            'connecting',
+            'disconnected',
+            'connecting',
+            'disconnected',
+            'connecting',
+            'closed',
+        ]);
+    });
+});
+
+describe('static types', () => {
+    const greet = defineFunction({
+        name: 'greet',
+        args: [{name: H.string, title: H.union(H.string, H.none)}],
+        returns: H.array(H.string),
+        fn: async (person) =>
+            person.title === null ? [person.name] : [person.title, person.name],
+    });
+
+    it('types published functions and channel proxies', async () => {
+        const {alpha, beta} = createTestObjectChannel(false);
+
+        const remote = createChannel<
+            RemoteFunctions<{add: typeof addDefinition; greet: typeof greet}>
+        >(beta);
+        createChannel({...alpha, publish: [addDefinition, greet]});
+        await preempt();
+
+        const words: string[] = await remote.greet({name: 'Al', title: null});
+        assert.deepEqual(words, ['Al']);
+
+        // untyped definitions still produce untyped functions
+        assert.equal(await remote.add(1, 2), 3);
+
+        // @ts-expect-error
+        await assertRejects(() => remote.greet({name: 'Al'}));
+    });
+
+    it('types streams', async () => {
+        const countdown = defineFunction({
+            name: 'countdown',
+            args: [H.integer],
+            returns: H.stream(H.integer),
+            async *fn(n) {
+                while (n > 0) yield n--;
+            },
+        });
+
+        const {alpha, beta} = createTestObjectChannel(false);
+        const remote = createChannel<
+            RemoteFunctions<{countdown: typeof countdown}>
+        >(beta);
+        createChannel({...alpha, publish: [countdown]});
+        await preempt();
+
+        const counted: number[] = [];
+        for await (const n of await remote.countdown(3)) counted.push(n);
+        assert.deepEqual(counted, [3, 2, 1]);
+    });
+
+    it('types callbacks', async () => {
+        const repeat = defineFunction({
+            name: 'repeat',
+            args: [H.integer, H.callback([H.integer], H.string)],
+            returns: H.array(H.string),
+            async fn(times, f) {
+                const results: string[] = [];
+                for (let i = 0; i < times; i++) results.push(await f(i));
+                return results;
+            },
+        });
+
+        const {alpha, beta} = createTestObjectChannel(false);
+        const remote = createChannel<RemoteFunctions<{repeat: typeof repeat}>>(
+            beta
+        );
+        createChannel({...alpha, publish: [repeat]});
+        await preempt();
+
+        assert.deepEqual(await remote.repeat(2, (i) => `#${i}`), ['#0', '#1']);
+
+        // @ts-expect-error
+        await assertRejects(() => remote.repeat(2, (i) => i));
+    });
+
+    it('checks fn against args and returns', () => {
+        defineFunction({
+            name: 'bad',
+            args: [H.string],
+            returns: H.number,
+            // @ts-expect-error
+            fn: (s) => s,
         });
     });
 });
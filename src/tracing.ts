@@ -0,0 +1,74 @@
+// lwrpc tracing
+// helpers for W3C trace context (https://www.w3.org/TR/trace-context/)
+// the traceparent of a call is sent as the traceparent property of its metadata
+//  createChannel({...transport, outgoing: [traceCalls(() => span.traceparent)]})
+// and published functions read it from this.metadata.traceparent
+
+import {Middleware} from './lwrpc';
+
+// version-traceId-parentId-flags, in lowercase hex
+export type Traceparent = {
+    version: string; // 2 digits
+    traceId: string; // 32 digits
+    parentId: string; // 16 digits, the id of the calling span
+    flags: string; // 2 digits, 01 when sampled
+};
+
+const pattern = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// undefined unless the header is a valid traceparent
+export function parseTraceparent(header: unknown): Traceparent | undefined {
+    const match = typeof header === 'string' ? pattern.exec(header) : null;
+    if (!match) return undefined;
+
+    const [, version, traceId, parentId, flags] = match;
+    if (version === 'ff' || isZero(traceId) || isZero(parentId)) {
+        return undefined;
+    }
+    return {version, traceId, parentId, flags};
+}
+
+export function formatTraceparent(t: Traceparent): string {
+    return [t.version, t.traceId, t.parentId, t.flags].join('-');
+}
+
+// the traceparent of a new span, in the trace of the parent when it is valid
+// or else in a new trace
+export function childTraceparent(parent?: string): string {
+    const p = parseTraceparent(parent);
+    return formatTraceparent({
+        version: '00',
+        traceId: p ? p.traceId : randomHex(16),
+        parentId: randomHex(8),
+        flags: p ? p.flags : '01',
+    });
+}
+
+// outgoing middleware which sends a child of the current traceparent
+// with each call, unless the call already has one
+export function traceCalls(current: () => string | undefined): Middleware {
+    return async (call, next) => {
+        if (call.metadata.traceparent === undefined) {
+            call.metadata.traceparent = childTraceparent(current());
+        }
+        return next();
+    };
+}
+
+const isZero = (hex: string) => /^0+$/.test(hex);
+
+const randomHex = (bytes: number) =>
+    Array.from(randomBytes(bytes), (b) => b.toString(16).padStart(2, '0')).join(
+        ''
+    );
+
+// browsers and node 19 and later have a global crypto, elsewhere ids are
+// made with Math.random, they only need to be unlikely to repeat
+const randomBytes = (n: number): Uint8Array => {
+    const bytes = new Uint8Array(n);
+    if (globalThis.crypto?.getRandomValues) {
+        return globalThis.crypto.getRandomValues(bytes);
+    }
+    for (let i = 0; i < n; i++) bytes[i] = Math.floor(Math.random() * 256);
+    return bytes;
+};
@@ -0,0 +1,415 @@
+// lwrpc transports
+// adapters which provide the send, registerReceive and registerClose
+// parameters of createChannel for common transports, e.g.
+//  createChannel({...workerTransport(worker), publish})
+//
+// the adapters only use the parts of the transport objects described below
+// so they do not depend on node typings, and work with similar objects
+
+import {isString} from './util';
+
+export type Transport = {
+    send: (o: any, transfer?: Transferable[]) => void;
+    registerReceive: (receive: (o: any) => Promise<void>) => void;
+    registerClose: (close: () => void) => void;
+    transferables?: boolean; // send transfers the objects in transfer
+};
+
+// node event emitters
+type Emitter = {
+    on(event: string, listener: (...args: any[]) => void): unknown;
+};
+
+// a worker_threads Worker, parentPort or MessagePort
+export type NodeMessagePort = Emitter & {
+    postMessage(value: any, transfer?: any[]): void;
+};
+
+// a forked ChildProcess, or process in the forked child
+export type IpcProcess = Emitter & {send?(message: any): unknown};
+
+// a web Worker, MessagePort or BroadcastChannel
+export type MessageTarget = {
+    postMessage(message: any, transfer?: any[]): void;
+    addEventListener(type: string, listener: (event: any) => void): void;
+    start?(): void;
+};
+
+// node streams of bytes, e.g. process.stdin and process.stdout or a socket
+export type ReadableByteStream = Emitter;
+export type WritableByteStream = Emitter & {
+    write(chunk: Uint8Array | string): unknown;
+};
+
+// newline: one JSON message per line
+// length: each JSON message is preceded by its length in bytes (32 bit big endian)
+export type Framing = 'newline' | 'length';
+
+// the channel handles the messages it receives, so a failure of receive
+// must not become an unhandled rejection, which ends node processes
+const deliverTo = (receive: (o: any) => Promise<void>) => (o: any) => {
+    receive(o).catch(() => {});
+};
+
+// closes once, whichever event comes first
+const once = (close: () => void) => {
+    let closed = false;
+    return () => {
+        if (!closed) {
+            closed = true;
+            close();
+        }
+    };
+};
+
+// Worker emits exit, ports emit close
+// values marked with transfer are transferred
+export function workerTransport(port: NodeMessagePort): Transport {
+    return {
+        send: (o, transfer) =>
+            transfer ? port.postMessage(o, transfer) : port.postMessage(o),
+        transferables: true,
+        registerReceive(receive) {
+            port.on('message', deliverTo(receive));
+        },
+        registerClose(close) {
+            const closeOnce = once(close);
+            port.on('exit', closeOnce);
+            port.on('close', closeOnce);
+        },
+    };
+}
+
+// messages are serialized as JSON by default, so rich values rely on codecs
+export function processTransport(proc: IpcProcess): Transport {
+    if (!proc.send) {
+        throw new Error('process has no IPC channel, it must be forked');
+    }
+    return {
+        send: (o) => proc.send!(o),
+        registerReceive(receive) {
+            proc.on('message', deliverTo(receive));
+        },
+        registerClose(close) {
+            const closeOnce = once(close);
+            proc.on('disconnect', closeOnce);
+            proc.on('exit', closeOnce);
+        },
+    };
+}
+
+// browsers do not tell a port when the other side closes it
+// node MessagePorts emit close on both sides
+// values marked with transfer are transferred
+export function messagePortTransport(target: MessageTarget): Transport {
+    return {
+        send: (o, transfer) =>
+            transfer ? target.postMessage(o, transfer) : target.postMessage(o),
+        transferables: true,
+        registerReceive(receive) {
+            const deliver = deliverTo(receive);
+            target.addEventListener('message', (event) => deliver(event.data));
+            if (target.start) target.start();
+        },
+        registerClose(close) {
+            target.addEventListener('close', once(close));
+        },
+    };
+}
+
+// a browser WebSocket, or a socket of the ws package
+// binary frames are decoded as UTF-8 JSON, and sent when binary is set
+// frames longer than maxSize (characters of text frames, bytes of binary
+// frames) are skipped without being decoded
+// errors close the socket
+export function webSocketTransport(
+    ws: WebSocket,
+    binary: boolean = false,
+    maxSize: number = Infinity
+): Transport {
+    // blobs are decoded asynchronously, so decoding is chained to keep
+    // the messages in order, and the close after them
+    let decoded = Promise.resolve();
+    return {
+        send: (o) => ws.send(encodeFrame(o, binary)),
+        registerReceive(receive) {
+            const deliver = deliverTo(receive);
+            ws.addEventListener('message', (event: MessageEvent) => {
+                if (frameSize(event.data) > maxSize) return;
+                decoded = decoded
+                    .then(() => decodeFrame(event.data))
+                    .then(
+                        deliver,
+                        () => {} // not valid JSON
+                    );
+            });
+        },
+        registerClose(close) {
+            const closeOnce = once(close);
+            ws.addEventListener('close', () => {
+                decoded = decoded.then(closeOnce);
+            });
+            ws.addEventListener('error', () => ws.close());
+        },
+    };
+}
+
+// the state of a reconnecting transport
+// disconnected: waiting before the next attempt to connect
+// closed: will not connect again
+export type ConnectionState = 'connecting' | 'open' | 'disconnected' | 'closed';
+
+// delays grow from initial by factor for each failed attempt, up to max
+export type Backoff = {
+    initial?: number; // milliseconds, default 500
+    max?: number; // milliseconds, default 30000
+    factor?: number; // default 2
+};
+
+export type ReconnectOptions = {
+    binary?: boolean; // send binary frames
+    maxSize?: number; // of received frames, see webSocketTransport
+    backoff?: Backoff;
+    retries?: number; // failed attempts in a row before closing, default unlimited
+    onStateChange?: (state: ConnectionState) => void;
+};
+
+export type ReconnectingTransport = Transport & {
+    registerReconnect: (
+        disconnected: () => void,
+        connected: () => void
+    ) => void;
+    close: () => void; // closes the socket and stops reconnecting
+    state: () => ConnectionState;
+};
+
+// connects with a new socket from connect whenever the connection drops
+// messages sent while disconnected are dropped, the channel sends its
+// publications and expectations again when it is connected
+// starts to connect when the channel registers
+export function reconnectingWebSocketTransport(
+    connect: () => WebSocket,
+    options: ReconnectOptions = {}
+): ReconnectingTransport {
+    const {
+        binary = false,
+        maxSize,
+        backoff = {},
+        retries,
+        onStateChange,
+    } = options;
+    const {initial = 500, max = 30000, factor = 2} = backoff;
+
+    let ws: WebSocket | undefined;
+    let state: ConnectionState = 'connecting';
+    let failures = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    let receive = async (_: any) => {};
+    let close = () => {};
+    let disconnected = () => {};
+    let connected = () => {};
+
+    const setState = (s: ConnectionState) => {
+        state = s;
+        if (onStateChange) onStateChange(s);
+    };
+
+    const attempt = () => {
+        setState('connecting');
+        let socket: WebSocket;
+        try {
+            socket = connect();
+        } catch (e) {
+            retry();
+            return;
+        }
+        ws = socket;
+
+        const transport = webSocketTransport(socket, binary, maxSize);
+        // frames of a dropped socket may still be decoded
+        transport.registerReceive(async (o) => {
+            if (ws === socket) await receive(o);
+        });
+        transport.registerClose(() => {
+            if (ws !== socket) return; // closed by close()
+            ws = undefined;
+            if (state === 'open') disconnected();
+            retry();
+        });
+        socket.addEventListener('open', () => {
+            failures = 0;
+            setState('open');
+            connected();
+        });
+    };
+
+    const retry = () => {
+        if (retries !== undefined && failures >= retries) {
+            finish();
+        } else {
+            setState('disconnected');
+            timer = setTimeout(
+                attempt,
+                Math.min(max, initial * factor ** failures)
+            );
+            failures++;
+        }
+    };
+
+    const finish = () => {
+        if (state === 'closed') return;
+        setState('closed');
+        clearTimeout(timer);
+        const socket = ws;
+        ws = undefined;
+        if (socket) socket.close();
+        close();
+    };
+
+    return {
+        send(o) {
+            if (ws && state === 'open') ws.send(encodeFrame(o, binary));
+        },
+        registerReceive(r) {
+            receive = r;
+        },
+        registerClose(c) {
+            close = c;
+        },
+        registerReconnect(d, c) {
+            disconnected = d;
+            connected = c;
+            attempt();
+        },
+        close: finish,
+        state: () => state,
+    };
+}
+
+const encodeFrame = (o: any, binary: boolean) =>
+    binary ? new TextEncoder().encode(JSON.stringify(o)) : JSON.stringify(o);
+
+// text frames are strings, binary frames are ArrayBuffers or Blobs in
+// browsers and Buffers with the ws package
+const frameSize = (data: any): number =>
+    isString(data)
+        ? data.length
+        : typeof Blob !== 'undefined' && data instanceof Blob
+        ? data.size
+        : data.byteLength;
+
+async function decodeFrame(data: any): Promise<any> {
+    if (isString(data)) {
+        return JSON.parse(data);
+    } else if (typeof Blob !== 'undefined' && data instanceof Blob) {
+        return JSON.parse(await data.text());
+    } else {
+        return JSON.parse(new TextDecoder().decode(data));
+    }
+}
+
+// frames which are not valid JSON are skipped, and so are frames longer
+// than maxSize (characters of lines, bytes of length framed messages),
+// which are not kept while they arrive
+export function streamTransport(
+    input: ReadableByteStream,
+    output: WritableByteStream,
+    framing: Framing = 'newline',
+    maxSize: number = Infinity
+): Transport {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+
+    return {
+        send(o) {
+            const json = JSON.stringify(o);
+            if (framing === 'newline') {
+                output.write(json + '\n');
+            } else {
+                const bytes = encoder.encode(json);
+                const frame = new Uint8Array(4 + bytes.length);
+                new DataView(frame.buffer).setUint32(0, bytes.length);
+                frame.set(bytes, 4);
+                output.write(frame);
+            }
+        },
+        registerReceive(receive) {
+            const deliverMessage = deliverTo(receive);
+            const deliver = (json: string) => {
+                let message;
+                try {
+                    message = JSON.parse(json);
+                } catch (e) {
+                    return;
+                }
+                deliverMessage(message);
+            };
+
+            if (framing === 'newline') {
+                let text = '';
+                let skipping = false; // the rest of a line which is too long
+                input.on('data', (chunk: Uint8Array | string) => {
+                    text += isString(chunk)
+                        ? chunk
+                        : decoder.decode(chunk, {stream: true});
+                    const lines = text.split('\n');
+                    text = lines.pop()!;
+                    for (const line of lines) {
+                        if (
+                            !skipping &&
+                            line.length <= maxSize &&
+                            line.trim()
+                        ) {
+                            deliver(line);
+                        }
+                        skipping = false;
+                    }
+                    if (text.length > maxSize) {
+                        text = '';
+                        skipping = true;
+                    }
+                });
+            } else {
+                let buffer = new Uint8Array(0);
+                let skip = 0; // bytes of a message which is too long
+                input.on('data', (chunk: Uint8Array | string) => {
+                    let bytes = isString(chunk) ? encoder.encode(chunk) : chunk;
+                    if (skip > 0) {
+                        const skipped = Math.min(skip, bytes.length);
+                        skip -= skipped;
+                        bytes = bytes.subarray(skipped);
+                    }
+                    const joined = new Uint8Array(buffer.length + bytes.length);
+                    joined.set(buffer);
+                    joined.set(bytes, buffer.length);
+                    buffer = joined;
+
+                    while (buffer.length >= 4) {
+                        const view = new DataView(
+                            buffer.buffer,
+                            buffer.byteOffset,
+                            buffer.byteLength
+                        );
+                        const length = view.getUint32(0);
+                        if (length > maxSize) {
+                            const skipped = Math.min(length, buffer.length - 4);
+                            skip = length - skipped;
+                            buffer = buffer.subarray(4 + skipped);
+                            continue;
+                        }
+                        if (buffer.length < 4 + length) break;
+                        deliver(decoder.decode(buffer.subarray(4, 4 + length)));
+                        buffer = buffer.subarray(4 + length);
+                    }
+                });
+            }
+        },
+        registerClose(close) {
+            const closeOnce = once(close);
+            input.on('end', closeOnce);
+            input.on('close', closeOnce);
+            output.on('close', closeOnce);
+        },
+    };
+}
@@ -0,0 +1,52 @@
+// lwrpc utilities
+// the checks and names shared by the modules, which are not exported by lwrpc
+
+export const has = (x: object, k: PropertyKey): boolean =>
+    Object.prototype.hasOwnProperty.call(x, k);
+export const isString = (x: any): x is string => typeof x === 'string';
+export const isNumber = (x: any): x is number => typeof x === 'number';
+
+// objects made by literals, JSON.parse or Object.create(null), instances of
+// classes (e.g. Date or Map) are not plain
+export const isPlainObject = (x: any): x is {[key: string]: any} =>
+    typeof x === 'object' &&
+    x !== null &&
+    (Object.getPrototypeOf(x) === Object.prototype ||
+        Object.getPrototypeOf(x) === null);
+
+// a __proto__ key is set as a property of its own, instead of setting the
+// prototype of the object, so values can not change their prototypes
+export function setProperty(o: {[key: string]: any}, k: string, v: any): void {
+    if (k === '__proto__') {
+        Object.defineProperty(o, k, {
+            value: v,
+            enumerable: true,
+            writable: true,
+            configurable: true,
+        });
+    } else {
+        o[k] = v;
+    }
+}
+
+const isIdentifier = (k: string) => /^[A-Za-z_$][\w$]*$/.test(k);
+
+// the path to a property of an object, e.g. .name or ["first name"]
+export const property = (k: string): string =>
+    isIdentifier(k) ? `.${k}` : `[${JSON.stringify(k)}]`;
+
+// the name of a property in a type, e.g. name or "first name"
+export const propertyName = (k: string): string =>
+    isIdentifier(k) ? k : JSON.stringify(k);
+
+// names which are not typescript identifiers are changed to be
+export const identifier = (n: string): string =>
+    n.replace(/[^\w$]/g, '_').replace(/^(\d)/, '_$1');
+
+// the elements of a fixed array up to the last one which is not optional
+// ({$c: 11}), the optional elements after it may be left out
+export const requiredLength = (types: any[]): number => {
+    let n = types.length;
+    while (n > 0 && isPlainObject(types[n - 1]) && types[n - 1].$c === 11) n--;
+    return n;
+};